@@ -0,0 +1,533 @@
+import { describe, expect, it } from 'vitest';
+import { BaseAgent, type FetchHandlerOptions } from './base-agent';
+import { createConfirmableTool, createTool, params } from './tool-builder';
+import { callTool, callTools, createAgentHarness, reply } from './testing';
+import { estimateMessageTokens, estimateTokens } from './history';
+import type { AuthUser } from '../auth';
+import type { AgentConfig, AgentSettings, AgentStreamEvent, ToolDefinition } from './types';
+
+class TestAgent extends BaseAgent {}
+
+function createConfig(tools: ToolDefinition[], settings: AgentSettings = {}): AgentConfig {
+  return {
+    name: 'test-agent',
+    version: '1.0.0',
+    description: 'Agent under test',
+    model: '@cf/meta/llama-3.1-8b-instruct',
+    systemPrompt: 'You are a test agent.',
+    toolCategories: [{ name: 'test', description: 'Test tools', tools }],
+    settings,
+  };
+}
+
+function createAgent(tools: ToolDefinition[], settings: AgentSettings = {}) {
+  return new TestAgent(createConfig(tools, settings));
+}
+
+const echo = createTool({
+  name: 'echo',
+  description: 'Echo the input',
+  category: 'test',
+  parameters: { text: { type: 'string', description: 'Text to echo', required: true } },
+  execute: async args => ({ echoed: args.text }),
+});
+
+const deleteFile = createConfirmableTool({
+  name: 'delete_file',
+  description: 'Delete a file',
+  category: 'test',
+  parameters: { path: { type: 'string', description: 'File to delete', required: true } },
+  execute: async args => ({ deleted: args.path }),
+});
+
+describe('runConversation', () => {
+  it('returns the model reply when no tool is called', async () => {
+    const harness = createAgentHarness(createAgent([echo]), [reply('Hello there')]);
+
+    const result = await harness.chat('Hi');
+
+    expect(result).toMatchObject({ success: true, response: 'Hello there', toolsUsed: [] });
+    expect(harness.model.requests[0].messages.map(m => m.role)).toEqual(['system', 'user']);
+  });
+
+  it('feeds tool results back to the model until it answers', async () => {
+    const harness = createAgentHarness(createAgent([echo]), [
+      callTool('echo', { text: 'ping' }, 'call_1'),
+      reply('The tool said ping'),
+    ]);
+
+    const result = await harness.chat('Echo ping');
+
+    expect(result).toMatchObject({ success: true, response: 'The tool said ping', toolsUsed: ['echo'] });
+    const followUp = harness.model.requests[1].messages;
+    expect(followUp.at(-2)).toMatchObject({ role: 'assistant', toolCalls: [{ id: 'call_1', name: 'echo' }] });
+    expect(followUp.at(-1)).toEqual({ role: 'tool', content: JSON.stringify({ echoed: 'ping' }), toolCallId: 'call_1' });
+  });
+
+  it('answers every tool call made in one turn, in order', async () => {
+    const harness = createAgentHarness(createAgent([echo]), [
+      callTools([
+        { name: 'echo', args: { text: 'a' }, id: 'a' },
+        { name: 'missing', id: 'b' },
+      ]),
+      reply('done'),
+    ]);
+
+    await harness.chat('Two calls');
+
+    const toolMessages = harness.model.requests[1].messages.filter(m => m.role === 'tool');
+    expect(toolMessages.map(m => m.toolCallId)).toEqual(['a', 'b']);
+    expect(JSON.parse(toolMessages[1].content)).toEqual({ error: 'Unknown tool: missing' });
+  });
+
+  it('returns argument issues to the model instead of executing', async () => {
+    let executed = false;
+    const strict = createTool({ ...echo, execute: async () => { executed = true; } });
+    const harness = createAgentHarness(createAgent([strict]), [callTool('echo', { text: 42 }), reply('fixed')]);
+
+    await harness.chat('Echo a number');
+
+    const toolMessage = harness.model.requests[1].messages.at(-1)!;
+    expect(executed).toBe(false);
+    expect(JSON.parse(toolMessage.content)).toMatchObject({ code: 'invalid_arguments', issues: [{ path: 'text' }] });
+  });
+
+  it('stops after maxTurns without a final response', async () => {
+    const harness = createAgentHarness(createAgent([echo], { maxTurns: 2 }), [
+      callTool('echo', { text: '1' }),
+      callTool('echo', { text: '2' }),
+    ]);
+
+    const result = await harness.chat('Loop');
+
+    expect(result).toMatchObject({ success: false, response: 'Stopped after 2 turns without a final response' });
+    expect(harness.model.remaining()).toBe(0);
+  });
+
+  it('loads and appends session history', async () => {
+    const harness = createAgentHarness(createAgent([echo]), [reply('first'), reply('second')]);
+
+    await harness.chat('one', { sessionId: 's1' });
+    const result = await harness.chat('two', { sessionId: 's1' });
+
+    expect(result.sessionId).toBe('s1');
+    expect(harness.model.requests[1].messages.map(m => m.content)).toEqual([
+      expect.any(String),
+      'one',
+      'first',
+      'two',
+    ]);
+  });
+});
+
+describe('confirmTool and rejectTool', () => {
+  async function pendingFor(userId?: string) {
+    const harness = createAgentHarness(createAgent([deleteFile]), [callTool('delete_file', { path: '/tmp/a' })]);
+    const result = await harness.chat('Delete /tmp/a', { userId });
+    return { harness, token: result.pendingConfirmation!.token! };
+  }
+
+  it('holds confirmable calls until the token is confirmed, once', async () => {
+    const { harness, token } = await pendingFor('alice');
+    const context = { env: harness.env, kv: harness.kv, userId: 'alice' };
+
+    expect(await harness.agent.confirmTool(token, context)).toEqual({
+      confirmed: true,
+      tool: 'delete_file',
+      args: { path: '/tmp/a' },
+      result: { deleted: '/tmp/a' },
+    });
+    expect(await harness.agent.confirmTool(token, context)).toEqual({ error: 'Invalid or expired confirmation token' });
+  });
+
+  it('runs the tool once when the same token is confirmed concurrently', async () => {
+    let runs = 0;
+    const wipe = createConfirmableTool({ ...deleteFile, name: 'wipe', execute: async () => ({ wiped: ++runs }) });
+    const harness = createAgentHarness(createAgent([wipe]), [callTool('wipe', { path: '/' })]);
+    const token = (await harness.chat('Wipe it')).pendingConfirmation!.token!;
+    const context = { env: harness.env, kv: harness.kv };
+
+    const results = await Promise.all([harness.agent.confirmTool(token, context), harness.agent.confirmTool(token, context)]);
+
+    expect(runs).toBe(1);
+    expect(results.filter(result => 'confirmed' in result)).toHaveLength(1);
+  });
+
+  it('discards a rejected call', async () => {
+    const { harness, token } = await pendingFor('alice');
+    const context = { env: harness.env, kv: harness.kv, userId: 'alice' };
+
+    expect(await harness.agent.rejectTool(token, context)).toMatchObject({ rejected: true, tool: 'delete_file' });
+    expect(await harness.agent.confirmTool(token, context)).toEqual({ error: 'Invalid or expired confirmation token' });
+  });
+
+  it('leaves the token usable when another user tries to confirm or reject it', async () => {
+    const { harness, token } = await pendingFor('alice');
+    const mallory = { env: harness.env, kv: harness.kv, userId: 'mallory' };
+    const wrongUser = { error: 'Confirmation token was issued to a different user' };
+
+    expect(await harness.agent.confirmTool(token, mallory)).toEqual(wrongUser);
+    expect(await harness.agent.rejectTool(token, mallory)).toEqual(wrongUser);
+    expect(await harness.agent.confirmTool(token, { ...mallory, userId: 'alice' })).toMatchObject({ confirmed: true });
+  });
+});
+
+describe('streaming /chat', () => {
+  it('streams deltas and tool events over SSE, ending with the response', async () => {
+    const harness = createAgentHarness(createAgent([echo]), [
+      callTool('echo', { text: 'hi' }, 'c1'),
+      reply('Echoed hi'),
+    ]);
+
+    const response = await harness.request({
+      path: '/chat',
+      body: { message: 'Echo hi' },
+      headers: { Accept: 'text/event-stream' },
+    });
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    expect(response.events!.map(event => event.type)).toEqual(['tool_start', 'tool_finish', 'delta', 'done']);
+    expect(response.body).toMatchObject({ type: 'done', response: { response: 'Echoed hi', toolsUsed: ['echo'] } });
+  });
+
+  it('routes streaming requests through handleChatStream', async () => {
+    class CannedAgent extends TestAgent {
+      async *handleChatStream(): AsyncIterable<AgentStreamEvent> {
+        yield { type: 'done', response: { success: true, response: 'canned' } };
+      }
+    }
+    const harness = createAgentHarness(new CannedAgent(createConfig([])));
+
+    const response = await harness.request({
+      path: '/chat',
+      body: { message: 'Hi' },
+      headers: { Accept: 'application/x-ndjson' },
+    });
+
+    expect(response.events).toEqual([{ type: 'done', response: { success: true, response: 'canned' } }]);
+  });
+});
+
+describe('authentication and authorization', () => {
+  const users: Record<string, AuthUser> = {
+    'admin-token': { id: 'admin', roles: ['admin'] },
+    'viewer-token': { id: 'viewer', roles: ['viewer'] },
+  };
+  const handlerOptions: FetchHandlerOptions = {
+    requireAuth: true,
+    allowedOrigins: ['https://app.chitty.cc'],
+    verifyToken: async token => {
+      if (!users[token]) throw new Error('bad token');
+      return users[token];
+    },
+  };
+  const purge = createTool({
+    name: 'purge_cache',
+    description: 'Purge the cache',
+    category: 'test',
+    parameters: {},
+    requiredRoles: ['admin'],
+    execute: async () => ({ purged: true }),
+  });
+
+  it('exempts only the info, health and manifest routes from requireAuth', async () => {
+    const harness = createAgentHarness(createAgent([purge]));
+
+    for (const path of ['/', '/health', '/manifest']) {
+      expect((await harness.request({ path, handlerOptions })).status).not.toBe(401);
+    }
+    const tools = await harness.request({ path: '/tools', handlerOptions });
+    expect(tools.status).toBe(401);
+    expect(tools.headers.get('WWW-Authenticate')).toBe('Bearer');
+  });
+
+  it('rejects invalid bearer tokens', async () => {
+    const harness = createAgentHarness(createAgent([purge]));
+
+    const response = await harness.request({
+      path: '/tools',
+      headers: { Authorization: 'Bearer forged' },
+      handlerOptions,
+    });
+
+    expect(response.status).toBe(401);
+    expect(response.body.message).toBe('Invalid or expired token');
+  });
+
+  it('enforces required roles on tool calls', async () => {
+    const harness = createAgentHarness(createAgent([purge]), [
+      callTool('purge_cache'),
+      reply('no access'),
+      callTool('purge_cache'),
+      reply('purged'),
+    ]);
+    const chat = (token: string) => harness.request({
+      path: '/chat',
+      body: { message: 'Purge' },
+      headers: { Authorization: `Bearer ${token}` },
+      handlerOptions,
+    });
+
+    expect((await chat('viewer-token')).body.toolsUsed).toEqual(['purge_cache']);
+    expect(JSON.parse(harness.model.requests[1].messages.at(-1)!.content)).toMatchObject({ code: 'forbidden' });
+
+    await chat('admin-token');
+    expect(JSON.parse(harness.model.requests[3].messages.at(-1)!.content)).toEqual({ purged: true });
+  });
+
+  it('refuses a session started by another user', async () => {
+    const harness = createAgentHarness(createAgent([]), [reply('Your notes are safe')]);
+    const chat = (token: string) => harness.request({
+      path: '/chat',
+      body: { message: 'Read my notes', sessionId: 's1' },
+      headers: { Authorization: `Bearer ${token}` },
+      handlerOptions,
+    });
+
+    expect((await chat('admin-token')).status).toBe(200);
+    const hijack = await chat('viewer-token');
+
+    expect(hijack.status).toBe(403);
+    expect(hijack.body.error).toBe('Session s1 belongs to another user');
+    expect(harness.model.requests).toHaveLength(1);
+  });
+
+  it('echoes only allowed CORS origins', async () => {
+    const harness = createAgentHarness(createAgent([]));
+    const origin = async (value: string) => (await harness.request({
+      path: '/health',
+      headers: { Origin: value },
+      handlerOptions,
+    })).headers.get('Access-Control-Allow-Origin');
+
+    expect(await origin('https://app.chitty.cc')).toBe('https://app.chitty.cc');
+    expect(await origin('https://evil.example')).toBeNull();
+  });
+});
+
+describe('tool timeouts, retries and concurrency', () => {
+  const invoke = (tool: ToolDefinition) =>
+    createAgentHarness(createAgent([tool])).agent.executeTool(tool.name, {}, { env: {} });
+
+  it('aborts the tool signal when a call times out', async () => {
+    let signal: AbortSignal | undefined;
+    const hang = createTool({
+      name: 'hang',
+      description: 'Never finishes',
+      category: 'test',
+      parameters: {},
+      timeoutMs: 10,
+      execute: (_args, context) => {
+        signal = context.signal;
+        return new Promise(() => {});
+      },
+    });
+
+    expect(await invoke(hang)).toMatchObject({ code: 'timeout', attempts: 1 });
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('retries idempotent tools with a growing delay between attempts', async () => {
+    const startedAt: number[] = [];
+    const flaky = createTool({
+      name: 'flaky',
+      description: 'Fails twice',
+      category: 'test',
+      parameters: {},
+      idempotent: true,
+      retries: 2,
+      retryDelayMs: 20,
+      execute: async () => {
+        startedAt.push(Date.now());
+        if (startedAt.length < 3) throw new Error('try again');
+        return { ok: true };
+      },
+    });
+
+    expect(await invoke(flaky)).toEqual({ ok: true });
+    expect(startedAt[1] - startedAt[0]).toBeGreaterThanOrEqual(15);
+    expect(startedAt[2] - startedAt[1]).toBeGreaterThanOrEqual(35);
+  });
+
+  it('does not retry tools that are not idempotent', async () => {
+    let calls = 0;
+    const once = createTool({
+      name: 'once',
+      description: 'Fails',
+      category: 'test',
+      parameters: {},
+      retries: 3,
+      execute: async () => {
+        calls++;
+        throw new Error('boom');
+      },
+    });
+
+    expect(await invoke(once)).toEqual({ success: false, error: 'Tool execution failed: boom', code: 'failed', attempts: 1 });
+    expect(calls).toBe(1);
+  });
+
+  it('runs independent calls from one turn concurrently', async () => {
+    let running = 0;
+    let peak = 0;
+    const slow = createTool({
+      name: 'slow',
+      description: 'Takes a moment',
+      category: 'test',
+      parameters: {},
+      execute: async () => {
+        peak = Math.max(peak, ++running);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        running--;
+        return {};
+      },
+    });
+    const harness = createAgentHarness(createAgent([slow], { toolConcurrency: 2 }), [
+      callTools([{ name: 'slow' }, { name: 'slow', id: 'b' }, { name: 'slow', id: 'c' }]),
+      reply('done'),
+    ]);
+
+    await harness.chat('Go');
+
+    expect(peak).toBe(2);
+  });
+});
+
+describe('dry-run enforcement', () => {
+  const prune = createTool({
+    name: 'prune',
+    description: 'Prune old files',
+    category: 'test',
+    parameters: {
+      path: { type: 'string', description: 'Directory', required: true },
+      dryRun: params.dryRun(),
+    },
+    execute: async args => ({ pruned: !args.dryRun, path: args.path }),
+  });
+
+  it('injects dryRun: true under dryRunDefault and reports would-do calls', async () => {
+    const harness = createAgentHarness(createAgent([prune], { dryRunDefault: true }), [
+      callTool('prune', { path: '/tmp' }),
+      reply('Would prune /tmp'),
+    ]);
+
+    const result = await harness.chat('Prune /tmp');
+
+    harness.expectToolCalled('prune', { path: '/tmp' });
+    expect(result.dryRun).toEqual({
+      wouldDo: [{ tool: 'prune', args: { path: '/tmp', dryRun: true }, result: { pruned: false, path: '/tmp' } }],
+      did: [],
+    });
+  });
+
+  it('holds dryRun: false calls for confirmation under confirmDestructive', async () => {
+    const harness = createAgentHarness(createAgent([prune], { dryRunDefault: true, confirmDestructive: true }), [
+      callTool('prune', { path: '/tmp', dryRun: false }),
+    ]);
+
+    const result = await harness.chat('Really prune /tmp');
+
+    harness.expectToolNotCalled('prune');
+    expect(result.pendingConfirmation).toMatchObject({
+      toolName: 'prune',
+      toolArgs: { path: '/tmp', dryRun: false },
+      message: 'This action requires confirmation. Tool: prune (dryRun=false)',
+    });
+  });
+
+  it('runs an omitted dryRun with no default as a dry run', async () => {
+    const wipe = createTool({
+      name: 'wipe',
+      description: 'Wipe the disk',
+      category: 'test',
+      parameters: { dryRun: { type: 'boolean', description: 'Preview only' } },
+      execute: async args => ({ wiped: !args.dryRun }),
+    });
+    const harness = createAgentHarness(createAgent([wipe], { confirmDestructive: true }), [
+      callTool('wipe', {}),
+      reply('Would wipe'),
+    ]);
+
+    const result = await harness.chat('Wipe it');
+
+    expect(result.pendingConfirmation).toBeUndefined();
+    expect(result.dryRun).toEqual({
+      wouldDo: [{ tool: 'wipe', args: { dryRun: true }, result: { wiped: false } }],
+      did: [],
+    });
+  });
+
+  it('reports dryRun: false calls as done when no confirmation is required', async () => {
+    const harness = createAgentHarness(createAgent([prune]), [
+      callTool('prune', { path: '/tmp', dryRun: false }),
+      reply('Pruned'),
+    ]);
+
+    const result = await harness.chat('Prune /tmp now');
+
+    expect(result.dryRun?.did).toEqual([
+      { tool: 'prune', args: { path: '/tmp', dryRun: false }, result: { pruned: true, path: '/tmp' } },
+    ]);
+    expect(harness.toolCalls('prune')[0]).toMatchObject({ outcome: 'executed', destructive: true });
+  });
+});
+
+describe('maxContextTokens', () => {
+  it('keeps prompt, tool schemas and history within the budget', async () => {
+    const wordy = (name: string) => createTool({
+      name,
+      description: 'Does one thing',
+      category: 'test',
+      parameters: Object.fromEntries(Array.from({ length: 8 }, (_, index) => [
+        `option${index}`,
+        { type: 'string' as const, description: `A long explanation of option ${index} and when to set it` },
+      ])),
+    });
+    const harness = createAgentHarness(new TestAgent({
+      ...createConfig([], { maxContextTokens: 1200 }),
+      toolCategories: [
+        { name: 'alpha', description: 'Alpha tools', tools: [wordy('alpha_one'), wordy('alpha_two')] },
+        { name: 'beta', description: 'Beta tools', tools: [wordy('beta_one'), wordy('beta_two')] },
+      ],
+    }), [reply('ok')]);
+    const history = Array.from({ length: 40 }, (_, index) => ({
+      role: 'user' as const,
+      content: `earlier message number ${index} `.repeat(8),
+    }));
+
+    await harness.agent.runConversation('Use alpha', { env: {} }, { history });
+
+    const request = harness.model.requests[0];
+    const used = estimateTokens(JSON.stringify(request.tools))
+      + request.messages.reduce((sum, m) => sum + estimateMessageTokens(m), 0);
+    expect(request.tools.map(tool => tool.function.name)).toEqual(['alpha_one', 'alpha_two']);
+    expect(used).toBeLessThanOrEqual(1200);
+  });
+});
+
+describe('request limits', () => {
+  const limited = () => createAgent([deleteFile], { rateLimits: { session: { limit: 2, windowSeconds: 60 } } });
+
+  it('keeps limiting an anonymous caller that rotates session ids', async () => {
+    const harness = createAgentHarness(limited(), [reply('one'), reply('two'), reply('three')]);
+    const chat = (sessionId: string, ip = '203.0.113.7') => harness.request({
+      path: '/chat',
+      body: { message: 'Hi', sessionId },
+      headers: { 'CF-Connecting-IP': ip },
+    });
+
+    expect((await chat('a')).status).toBe(200);
+    expect((await chat('b')).status).toBe(200);
+    expect((await chat('c')).status).toBe(429);
+    expect((await chat('d', '198.51.100.1')).status).toBe(200);
+  });
+
+  it('limits anonymous /confirm, /reject and /mcp calls per client IP', async () => {
+    const harness = createAgentHarness(limited());
+    const headers = { 'CF-Connecting-IP': '203.0.113.7' };
+
+    expect((await harness.request({ path: '/confirm', body: { token: 'nope' }, headers })).status).not.toBe(429);
+    expect((await harness.request({ path: '/reject', body: { token: 'nope' }, headers })).status).not.toBe(429);
+    expect((await harness.request({ path: '/mcp', body: { jsonrpc: '2.0', id: 1, method: 'ping' }, headers })).status).toBe(429);
+  });
+});
@@ -7,7 +7,7 @@
  * Usage:
  *   class MyAgent extends BaseAgent {
  *     constructor() {
- *       super(myAgentConfig);
+ *       super(myAgentConfig, { modelProvider: myModelProvider });
  *     }
  *   }
  */
@@ -15,20 +15,83 @@
 import type {
   AgentConfig,
   AgentContext,
+  AgentManifest,
+  AgentStreamEvent,
   ChatMessage,
   ChatResponse,
+  ConversationOptions,
+  FunctionToolDefinition,
+  McpToolDefinition,
+  ModelProvider,
+  ModelResponse,
   ToolDefinition,
   ToolCategory,
+  ToolCall,
+  ToolResult,
+  DryRunReport,
   PendingConfirmation,
 } from './types';
+import { createModelProvider, parseModelRef, withFallback } from './providers';
+import { assertSessionOwner, createSessionStore, SessionOwnerError, type SessionStore } from './session-store';
+import { createConfirmationStore, type ConfirmationStore } from './confirmation-store';
+import { createJobStore, JOB_EXECUTOR_ROLE, type JobStore } from './jobs';
+import type { Tracer, ToolCallOutcome } from './tracing';
+import { validateToolArgs } from './validation';
+import { toolParametersToJsonSchema } from './tool-builder';
+import { createAgentManifest } from './templates';
+import { DELEGATION_ROLE, readDelegationHeaders } from './delegation';
+import { createMcpServer, handleMcpHttpRequest } from './mcp';
+import { buildBudgetedSystemPrompt, compactHistory } from './prompt';
+import { estimateTokens } from './history';
+import {
+  createRateLimiter,
+  RateLimitError,
+  type RateLimiter,
+  type RateLimitResult,
+} from './rate-limit';
+import { verifyToken, hasRoles, hasPermissions, type AuthUser } from '../auth';
+
+const DEFAULT_MAX_TURNS = 5;
+const DEFAULT_TOOL_CONCURRENCY = 4;
+const DEFAULT_RETRY_DELAY_MS = 250;
+
+export interface BaseAgentOptions {
+  modelProvider?: ModelProvider;
+  sessionStore?: SessionStore;
+  confirmationStore?: ConfirmationStore;
+  jobStore?: JobStore;
+  tracer?: Tracer;
+  rateLimiter?: RateLimiter;
+}
+
+export interface FetchHandlerOptions {
+  /** Reject requests without a valid bearer token (except `/`, `/health` and `/manifest`) */
+  requireAuth?: boolean;
+  /** Origins allowed by CORS; defaults to any origin */
+  allowedOrigins?: string[];
+  /** Token verifier; defaults to `auth.verifyToken` */
+  verifyToken?: (token: string) => Promise<AuthUser>;
+}
 
 export abstract class BaseAgent {
   protected config: AgentConfig;
   protected tools: Map<string, ToolDefinition>;
   protected toolsByCategory: Map<string, ToolDefinition[]>;
+  protected modelProvider?: ModelProvider;
+  protected sessionStore?: SessionStore;
+  protected confirmationStore?: ConfirmationStore;
+  protected jobStore?: JobStore;
+  protected rateLimiter?: RateLimiter;
+  protected tracer?: Tracer;
 
-  constructor(config: AgentConfig) {
+  constructor(config: AgentConfig, options: BaseAgentOptions = {}) {
     this.config = config;
+    this.modelProvider = options.modelProvider;
+    this.sessionStore = options.sessionStore;
+    this.confirmationStore = options.confirmationStore;
+    this.jobStore = options.jobStore;
+    this.rateLimiter = options.rateLimiter;
+    this.tracer = options.tracer;
     this.tools = new Map();
     this.toolsByCategory = new Map();
 
@@ -41,6 +104,19 @@ export abstract class BaseAgent {
     }
   }
 
+  /**
+   * Replace pluggable dependencies after construction (e.g. test doubles)
+   */
+  configure(options: BaseAgentOptions): this {
+    if (options.modelProvider) this.modelProvider = options.modelProvider;
+    if (options.sessionStore) this.sessionStore = options.sessionStore;
+    if (options.confirmationStore) this.confirmationStore = options.confirmationStore;
+    if (options.jobStore) this.jobStore = options.jobStore;
+    if (options.rateLimiter) this.rateLimiter = options.rateLimiter;
+    if (options.tracer) this.tracer = options.tracer;
+    return this;
+  }
+
   /**
    * Get agent info for / endpoint
    */
@@ -72,22 +148,39 @@ export abstract class BaseAgent {
     };
   }
 
+  /**
+   * Get the registry manifest for `/manifest`, if `config.manifest` is set
+   */
+  getManifest(): AgentManifest | undefined {
+    return this.config.manifest && createAgentManifest(this.config, this.config.manifest);
+  }
+
   /**
    * Get tool definitions in OpenAI-compatible format
    */
-  getToolDefinitions() {
+  getToolDefinitions(): FunctionToolDefinition[] {
     return Array.from(this.tools.values()).map(tool => ({
-      type: 'function',
+      type: 'function' as const,
       function: {
         name: tool.name,
         description: tool.description,
-        parameters: {
-          type: 'object',
-          properties: tool.parameters,
-          required: Object.entries(tool.parameters)
-            .filter(([_, p]) => p.required)
-            .map(([name]) => name),
-        },
+        parameters: toolParametersToJsonSchema(tool.parameters),
+      },
+    }));
+  }
+
+  /**
+   * Get tool definitions in Model Context Protocol (`tools/list`) format.
+   * Confirmable tools are flagged as destructive.
+   */
+  getMcpToolDefinitions(): McpToolDefinition[] {
+    return Array.from(this.tools.values()).map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: toolParametersToJsonSchema(tool.parameters),
+      annotations: {
+        destructiveHint: !!tool.requiresConfirmation,
+        ...(tool.idempotent !== undefined && { idempotentHint: tool.idempotent }),
       },
     }));
   }
@@ -109,66 +202,795 @@ export abstract class BaseAgent {
   }
 
   /**
-   * Execute a tool by name
+   * Execute a tool by name. Arguments are validated against the tool's
+   * parameters first. Confirmable tools are not run; instead a pending
+   * confirmation with a one-time token is stored for `confirmTool`.
    */
   async executeTool(
     toolName: string,
     args: Record<string, any>,
-    context: AgentContext
+    context: AgentContext,
+    toolCallId?: string
   ): Promise<any> {
+    const span = this.tracer?.startSpan({
+      kind: 'tool',
+      name: toolName,
+      agent: this.config.name,
+      context,
+      args,
+    });
+
+    const { result, outcome } = await this.dispatchTool(toolName, args, context, toolCallId);
+
+    await span?.end({ result, outcome, destructive: this.isDestructiveToolCall(toolName, args) });
+    return result;
+  }
+
+  /**
+   * Authorize, validate and gate a tool call before invoking it
+   */
+  private async dispatchTool(
+    toolName: string,
+    args: Record<string, any>,
+    context: AgentContext,
+    toolCallId?: string
+  ): Promise<{ result: any; outcome: ToolCallOutcome }> {
     const tool = this.tools.get(toolName);
 
     if (!tool) {
-      return { error: `Unknown tool: ${toolName}` };
+      return { result: { error: `Unknown tool: ${toolName}` }, outcome: 'unknown_tool' };
+    }
+
+    const denied = this.authorizeTool(tool, context);
+    if (denied) {
+      return { result: { success: false, error: denied, code: 'forbidden' }, outcome: 'forbidden' };
+    }
+
+    const limiter = tool.rateLimit && this.resolveRateLimiter(context);
+    if (limiter) {
+      const limit = await limiter.check(`tool:${toolName}:${callerKey(context)}`, tool.rateLimit!);
+      if (!limit.allowed) {
+        return {
+          result: {
+            success: false,
+            error: `Rate limit exceeded for tool ${toolName}; retry in ${limit.retryAfterSeconds}s`,
+            code: 'rate_limited',
+          },
+          outcome: 'rate_limited',
+        };
+      }
     }
 
+    // Validate arguments and fill defaults
+    args = this.applyDryRunDefault(tool, args);
+    const validation = validateToolArgs(tool, args);
+    if (!validation.success) {
+      return {
+        result: {
+          success: false,
+          error: `Invalid arguments for tool ${toolName}`,
+          code: 'invalid_arguments',
+          issues: validation.issues,
+        },
+        outcome: 'invalid_arguments',
+      };
+    }
+    args = validation.data;
+
     // Check if tool requires confirmation
-    if (tool.requiresConfirmation && !context.env?.confirmed) {
+    if (this.needsConfirmation(tool, args)) {
+      const message = tool.requiresConfirmation
+        ? `This action requires confirmation. Tool: ${toolName}`
+        : `This action requires confirmation. Tool: ${toolName} (dryRun=false)`;
+      const store = this.resolveConfirmationStore(context);
+      const pending = store
+        ? await store.create({
+            toolName,
+            toolArgs: args,
+            message,
+            toolCallId,
+            sessionId: context.sessionId,
+            userId: context.userId,
+          })
+        : undefined;
+
       return {
-        requiresConfirmation: true,
-        tool: toolName,
-        args,
-        message: `This action requires confirmation. Tool: ${toolName}`,
+        result: {
+          requiresConfirmation: true,
+          tool: toolName,
+          args,
+          message,
+          token: pending?.token,
+          expiresAt: pending?.expiresAt,
+        },
+        outcome: 'pending_confirmation',
       };
     }
 
-    // Execute the tool
-    if (tool.execute) {
+    return { result: await this.invokeTool(tool, args, context), outcome: 'executed' };
+  }
+
+  /**
+   * Trace a tool call that was not dispatched (skipped or rejected), so
+   * destructive calls reach the audit trail whatever happened to them
+   */
+  private async traceToolCall(
+    toolName: string,
+    args: Record<string, any>,
+    context: AgentContext,
+    outcome: ToolCallOutcome,
+    result: any
+  ): Promise<void> {
+    await this.tracer?.startSpan({
+      kind: 'tool',
+      name: toolName,
+      agent: this.config.name,
+      context,
+      args,
+    }).end({ result, outcome, destructive: this.isDestructiveToolCall(toolName, args) });
+  }
+
+  /**
+   * Fill in `dryRun` for tools with a dryRun parameter when the caller did not
+   * choose: `true` under `dryRunDefault`, else the parameter's default, else
+   * `true`. The tool then runs in exactly the mode isDryRun reports.
+   */
+  private applyDryRunDefault(tool: ToolDefinition, args: Record<string, any>): Record<string, any> {
+    if (!('dryRun' in tool.parameters) || args?.dryRun !== undefined) {
+      return args;
+    }
+    const dryRun = this.config.settings?.dryRunDefault ? true : tool.parameters.dryRun.default ?? true;
+    return { ...args, dryRun };
+  }
+
+  /**
+   * Whether a call will run in dry-run mode, or undefined for tools without one
+   */
+  private isDryRun(tool: ToolDefinition, args: Record<string, any>): boolean | undefined {
+    if (!('dryRun' in tool.parameters)) {
+      return undefined;
+    }
+    return (args?.dryRun ?? tool.parameters.dryRun.default) !== false;
+  }
+
+  /**
+   * Confirmable tools, and dry-run capable tools invoked with `dryRun: false`
+   */
+  private isDestructiveCall(tool: ToolDefinition, args: Record<string, any>): boolean {
+    return !!tool.requiresConfirmation || this.isDryRun(tool, args) === false;
+  }
+
+  /**
+   * isDestructiveCall by tool name, after applying dryRunDefault
+   */
+  private isDestructiveToolCall(toolName: string, args: Record<string, any>): boolean {
+    const tool = this.tools.get(toolName);
+    return !!tool && this.isDestructiveCall(tool, this.applyDryRunDefault(tool, args));
+  }
+
+  /**
+   * Destructive dry-run tools only need approval when `confirmDestructive` is on
+   */
+  private needsConfirmation(tool: ToolDefinition, args: Record<string, any>): boolean {
+    return !!tool.requiresConfirmation
+      || (!!this.config.settings?.confirmDestructive && this.isDryRun(tool, args) === false);
+  }
+
+  /**
+   * Execute exactly the tool call stored behind a confirmation token
+   */
+  async confirmTool(token: string, context: AgentContext): Promise<any> {
+    const claimed = await this.claimConfirmation(token, context);
+    if ('error' in claimed) {
+      return claimed;
+    }
+    const pending = claimed.pending;
+
+    const tool = this.tools.get(pending.toolName);
+    if (!tool) {
+      return { error: `Unknown tool: ${pending.toolName}` };
+    }
+
+    const toolContext: AgentContext = {
+      ...context,
+      sessionId: pending.sessionId ?? context.sessionId,
+      userId: pending.userId ?? context.userId,
+    };
+
+    const denied = this.authorizeTool(tool, context);
+    if (denied) {
+      await this.traceToolCall(tool.name, pending.toolArgs, toolContext, 'forbidden', { error: denied });
+      return { error: denied };
+    }
+
+    const span = this.tracer?.startSpan({
+      kind: 'tool',
+      name: tool.name,
+      agent: this.config.name,
+      context: toolContext,
+      args: pending.toolArgs,
+    });
+
+    const result = await this.invokeTool(tool, pending.toolArgs, toolContext);
+    await span?.end({ result, outcome: 'executed', destructive: true });
+
+    return { confirmed: true, tool: pending.toolName, args: pending.toolArgs, result };
+  }
+
+  /**
+   * Discard the tool call stored behind a confirmation token
+   */
+  async rejectTool(token: string, context: AgentContext): Promise<any> {
+    const claimed = await this.claimConfirmation(token, context);
+    if ('error' in claimed) {
+      return claimed;
+    }
+
+    const { pending } = claimed;
+    await this.traceToolCall(pending.toolName, pending.toolArgs, {
+      ...context,
+      sessionId: pending.sessionId ?? context.sessionId,
+    }, 'rejected', undefined);
+
+    return { rejected: true, tool: pending.toolName, args: pending.toolArgs };
+  }
+
+  /**
+   * Consume a confirmation token, but only for the user it was issued to.
+   * Ownership is checked before the token is taken, so a wrong caller
+   * cannot burn someone else's pending call.
+   */
+  private async claimConfirmation(
+    token: string,
+    context: AgentContext
+  ): Promise<{ pending: PendingConfirmation } | { error: string }> {
+    const store = this.resolveConfirmationStore(context);
+    const stored = await store?.get(token);
+
+    if (!stored) {
+      return { error: 'Invalid or expired confirmation token' };
+    }
+
+    if (stored.userId && stored.userId !== context.userId) {
+      return { error: 'Confirmation token was issued to a different user' };
+    }
+
+    const pending = await store!.take(token);
+    return pending ? { pending } : { error: 'Invalid or expired confirmation token' };
+  }
+
+  /**
+   * Check a tool's required roles and permissions against the context user.
+   * Returns an error message when access is denied.
+   */
+  protected authorizeTool(tool: ToolDefinition, context: AgentContext): string | undefined {
+    if (!tool.requiredRoles?.length && !tool.requiredPermissions?.length) {
+      return undefined;
+    }
+
+    if (!context.user) {
+      return `Tool ${tool.name} requires an authenticated user`;
+    }
+
+    if (tool.requiredRoles?.length && !hasRoles(context.user, tool.requiredRoles)) {
+      return `Tool ${tool.name} requires roles: ${tool.requiredRoles.join(', ')}`;
+    }
+
+    if (tool.requiredPermissions?.length && !hasPermissions(context.user, tool.requiredPermissions)) {
+      return `Tool ${tool.name} requires permissions: ${tool.requiredPermissions.join(', ')}`;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Run a tool's execute function, bypassing the confirmation gate.
+   * Enforces `timeoutMs`, aborting `context.signal` when it expires, and
+   * retries idempotent tools up to `retries` times with exponential backoff.
+   */
+  protected async invokeTool(
+    tool: ToolDefinition,
+    args: Record<string, any>,
+    context: AgentContext
+  ): Promise<any> {
+    if (!tool.execute) {
+      return { success: false, error: `Tool ${tool.name} has no execute function` };
+    }
+
+    const timeoutMs = tool.timeoutMs ?? this.config.settings?.toolTimeoutMs;
+    const attempts = 1 + (tool.idempotent ? tool.retries ?? 0 : 0);
+    const retryDelayMs = tool.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    let failure: ToolResult | undefined;
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      if (attempt > 1) {
+        await sleep(retryDelayMs * 2 ** (attempt - 2));
+      }
+
+      const controller = new AbortController();
       try {
-        return await tool.execute(args, context);
+        const execution = tool.execute(args, { ...context, signal: controller.signal });
+        return timeoutMs ? await withTimeout(execution, timeoutMs, controller) : await execution;
       } catch (error) {
-        return {
-          error: `Tool execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        failure = error instanceof ToolTimeoutError
+          ? {
+              success: false,
+              error: `Tool ${tool.name} timed out after ${timeoutMs}ms`,
+              code: 'timeout',
+              attempts: attempt,
+            }
+          : {
+              success: false,
+              error: `Tool execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              code: 'failed',
+              attempts: attempt,
+            };
+      }
+    }
+
+    return failure;
+  }
+
+  /**
+   * Run the model/tool loop for a single user message.
+   *
+   * Each turn sends the transcript to the model provider; tool calls are
+   * executed and appended as `tool` messages until the model answers without
+   * calling a tool, a confirmable tool is hit, or `maxTurns` is reached.
+   * When `context.sessionId` is set and a session store is available, prior
+   * messages are loaded first and the new turns are appended afterwards.
+   * A session started by another user throws a SessionOwnerError.
+   */
+  async runConversation(
+    message: string,
+    context: AgentContext,
+    options: ConversationOptions = {}
+  ): Promise<ChatResponse> {
+    for await (const event of this.streamConversation(message, context, options)) {
+      if (event.type === 'done') {
+        return event.response;
+      }
+    }
+    throw new Error('Conversation ended without a response');
+  }
+
+  /**
+   * Streaming variant of runConversation. Yields token deltas and tool
+   * start/finish events, ending with a `done` event carrying the ChatResponse.
+   */
+  async *streamConversation(
+    message: string,
+    context: AgentContext,
+    options: ConversationOptions = {}
+  ): AsyncGenerator<AgentStreamEvent> {
+    const provider = options.provider ?? this.resolveModelProvider(context);
+    const sessionStore = context.sessionId ? this.resolveSessionStore(context) : undefined;
+    context = { ...context, traceId: context.traceId ?? crypto.randomUUID() };
+
+    let history = options.history;
+    if (sessionStore) {
+      const state = await sessionStore.load(context.sessionId!);
+      assertSessionOwner(state, context.userId);
+      history ??= state?.messages;
+    }
+
+    let systemPrompt: string;
+    let tools = this.getToolDefinitions();
+    const budget = this.config.settings?.maxContextTokens;
+
+    if (budget) {
+      // Up to half the budget for the prompt and tool schemas, the rest for history
+      const schemas = new Map(tools.map(tool => [tool.function.name, tool]));
+      const budgeted = buildBudgetedSystemPrompt(this.config.systemPrompt, this.config.toolCategories, {
+        maxTokens: Math.floor(budget / 2),
+        message,
+        schemaTokens: category =>
+          estimateTokens(JSON.stringify(category.tools.map(tool => schemas.get(tool.name)))),
+      });
+      const included = new Set(budgeted.categories.flatMap(category => category.tools.map(tool => tool.name)));
+      systemPrompt = budgeted.prompt;
+      tools = tools.filter(tool => included.has(tool.function.name));
+
+      const compacted = await compactHistory(history ?? [], {
+        maxTokens: Math.max(0, budget - budgeted.tokens - budgeted.schemaTokens - estimateTokens(message) - 4),
+        summarize: this.config.settings?.summarizeHistory
+          ? older => this.summarizeHistory(older, provider, context)
+          : undefined,
+      });
+      history = compacted.messages;
+    } else {
+      systemPrompt = this.buildSystemPrompt();
+    }
+
+    const messages: ChatMessage[] = [
+      { role: 'system', content: systemPrompt },
+      ...(history ?? []),
+      { role: 'user', content: message },
+    ];
+    const firstNew = messages.length - 1;
+
+    let result: ChatResponse | undefined;
+    for await (const event of this.runTurns(messages, tools, context, provider)) {
+      if (event.type === 'done') {
+        result = event.response;
+      } else {
+        yield event;
+      }
+    }
+
+    if (sessionStore) {
+      await sessionStore.append(context.sessionId!, messages.slice(firstNew), undefined, context.userId);
+      result = { ...result!, sessionId: context.sessionId };
+    }
+
+    yield { type: 'done', response: result! };
+  }
+
+  /**
+   * Summarize older history for compaction - override to use a cheaper model
+   */
+  protected async summarizeHistory(
+    messages: ChatMessage[],
+    provider: ModelProvider,
+    context: AgentContext
+  ): Promise<string> {
+    const transcript = messages
+      .map(m => `${m.role}: ${m.content || JSON.stringify(m.toolCalls ?? [])}`)
+      .join('\n');
+
+    const reply = await provider.chat({
+      model: this.config.model,
+      messages: [
+        {
+          role: 'system',
+          content: 'Summarize this conversation in a few sentences. Keep facts, decisions, results and open requests.',
+        },
+        { role: 'user', content: transcript },
+      ],
+      tools: [],
+      temperature: 0,
+    }, context);
+
+    return reply.content;
+  }
+
+  /**
+   * Drive model turns over `messages`, appending assistant and tool messages
+   */
+  private async *runTurns(
+    messages: ChatMessage[],
+    tools: FunctionToolDefinition[],
+    context: AgentContext,
+    provider: ModelProvider
+  ): AsyncGenerator<AgentStreamEvent> {
+    const maxTurns = this.config.settings?.maxTurns ?? DEFAULT_MAX_TURNS;
+    const toolsUsed: string[] = [];
+
+    // Dry-run capable calls, split into what would be done and what was done
+    const dryRunReport: DryRunReport = { wouldDo: [], did: [] };
+    const recordDryRun = (call: ToolCall, result: any) => {
+      const tool = this.tools.get(call.name);
+      const args = tool && this.applyDryRunDefault(tool, call.arguments);
+      const dryRun = tool && this.isDryRun(tool, args!);
+      if (dryRun === undefined) return;
+      (dryRun ? dryRunReport.wouldDo : dryRunReport.did).push({ tool: call.name, args: args!, result });
+    };
+    const report = () =>
+      dryRunReport.wouldDo.length || dryRunReport.did.length ? dryRunReport : undefined;
+
+    for (let turn = 0; turn < maxTurns; turn++) {
+      await this.consumeModelQuota(context);
+
+      const request = {
+        model: this.config.model,
+        messages,
+        tools,
+        temperature: this.config.settings?.temperature,
+      };
+
+      const span = this.tracer?.startSpan({
+        kind: 'model',
+        name: `${provider.name}:${request.model}`,
+        agent: this.config.name,
+        context,
+      });
+
+      let reply: ModelResponse | undefined;
+      try {
+        if (provider.stream) {
+          for await (const chunk of provider.stream(request, context)) {
+            if (chunk.type === 'delta') {
+              yield chunk;
+            } else {
+              reply = chunk.response;
+            }
+          }
+          if (!reply) {
+            throw new Error(`Model provider ${provider.name} ended the stream without a response`);
+          }
+        } else {
+          reply = await provider.chat(request, context);
+          if (reply.content) {
+            yield { type: 'delta', text: reply.content };
+          }
+        }
+      } catch (error) {
+        await span?.end({ error });
+        throw error;
+      }
+      await span?.end({ result: reply });
+
+      if (!reply.toolCalls?.length) {
+        messages.push({ role: 'assistant', content: reply.content });
+        yield {
+          type: 'done',
+          response: { success: true, response: reply.content, toolsUsed, dryRun: report() },
         };
+        return;
+      }
+
+      messages.push({
+        role: 'assistant',
+        content: reply.content,
+        toolCalls: reply.toolCalls,
+      });
+
+      // Independent calls run concurrently; confirmable calls are handled
+      // afterwards, in order, and the first one pending approval ends the turn
+      const gated = (call: ToolCall) => {
+        const tool = this.tools.get(call.name);
+        return !!tool && this.needsConfirmation(tool, this.applyDryRunDefault(tool, call.arguments));
+      };
+      const immediate = reply.toolCalls.filter(call => !gated(call));
+      const confirmable = reply.toolCalls.filter(gated);
+      const results = new Map<string, any>();
+
+      for (const call of immediate) {
+        yield { type: 'tool_start', toolCallId: call.id, name: call.name, args: call.arguments };
+      }
+      const settled = await mapWithConcurrency(
+        immediate,
+        this.config.settings?.toolConcurrency ?? DEFAULT_TOOL_CONCURRENCY,
+        call => this.executeTool(call.name, call.arguments, context, call.id)
+      );
+      for (const [index, call] of immediate.entries()) {
+        results.set(call.id, settled[index]);
+        toolsUsed.push(call.name);
+        recordDryRun(call, settled[index]);
+        yield { type: 'tool_finish', toolCallId: call.id, name: call.name, result: settled[index] };
+      }
+
+      let pendingConfirmation: PendingConfirmation | undefined;
+      for (const call of confirmable) {
+        if (pendingConfirmation) {
+          const skipped = { skipped: true, reason: 'Awaiting confirmation' };
+          results.set(call.id, skipped);
+          await this.traceToolCall(call.name, call.arguments, context, 'skipped', skipped);
+          continue;
+        }
+
+        yield { type: 'tool_start', toolCallId: call.id, name: call.name, args: call.arguments };
+        const result = await this.executeTool(call.name, call.arguments, context, call.id);
+        yield { type: 'tool_finish', toolCallId: call.id, name: call.name, result };
+        results.set(call.id, result);
+
+        if (result?.requiresConfirmation) {
+          pendingConfirmation = {
+            toolName: call.name,
+            toolArgs: result.args,
+            message: result.message,
+            token: result.token,
+            toolCallId: call.id,
+            expiresAt: result.expiresAt,
+          };
+        } else {
+          toolsUsed.push(call.name);
+          recordDryRun(call, result);
+        }
+      }
+
+      for (const call of reply.toolCalls) {
+        messages.push({
+          role: 'tool',
+          content: JSON.stringify(results.get(call.id)),
+          toolCallId: call.id,
+        });
+      }
+
+      if (pendingConfirmation) {
+        yield {
+          type: 'done',
+          response: {
+            success: true,
+            response: reply.content || pendingConfirmation.message,
+            toolsUsed,
+            pendingConfirmation,
+            dryRun: report(),
+          },
+        };
+        return;
+      }
+    }
+
+    yield {
+      type: 'done',
+      response: {
+        success: false,
+        response: `Stopped after ${maxTurns} turns without a final response`,
+        toolsUsed,
+        dryRun: report(),
+      },
+    };
+  }
+
+  /**
+   * Model provider used by runConversation when none is passed explicitly.
+   * Defaults to the adapter for `config.provider`, wrapped with
+   * `config.fallbackModel` when one is set.
+   */
+  protected resolveModelProvider(_context: AgentContext): ModelProvider {
+    if (!this.modelProvider) {
+      const providerName = this.config.provider ?? 'workers-ai';
+      let provider = createModelProvider(providerName);
+
+      if (this.config.fallbackModel) {
+        const fallback = parseModelRef(this.config.fallbackModel, providerName);
+        provider = withFallback(provider, createModelProvider(fallback.provider), fallback.model);
+      }
+
+      this.modelProvider = provider;
+    }
+    return this.modelProvider;
+  }
+
+  /**
+   * Session store used to persist conversations. Defaults to the context KV
+   * namespace, configured from AgentSettings.
+   */
+  protected resolveSessionStore(context: AgentContext): SessionStore | undefined {
+    if (this.sessionStore) {
+      return this.sessionStore;
+    }
+    if (!context.kv) {
+      return undefined;
+    }
+
+    const settings = this.config.settings;
+    return createSessionStore(context.kv, {
+      ttlSeconds: settings?.sessionTtlSeconds,
+      maxMessages: settings?.maxHistoryMessages,
+      maxTokens: settings?.maxHistoryTokens,
+    });
+  }
+
+  /**
+   * Confirmation store for confirmable tools. Defaults to the context KV namespace.
+   */
+  protected resolveConfirmationStore(context: AgentContext): ConfirmationStore | undefined {
+    if (this.confirmationStore) {
+      return this.confirmationStore;
+    }
+    if (!context.kv) {
+      return undefined;
+    }
+
+    return createConfirmationStore(context.kv, {
+      ttlSeconds: this.config.settings?.confirmationTtlSeconds,
+    });
+  }
+
+  /**
+   * Rate limiter for request, tool and model quotas. Defaults to the context KV namespace.
+   */
+  protected resolveRateLimiter(context: AgentContext): RateLimiter | undefined {
+    if (this.rateLimiter) {
+      return this.rateLimiter;
+    }
+    return context.kv ? createRateLimiter(context.kv) : undefined;
+  }
+
+  /**
+   * Check `settings.rateLimits` for a request, and with `modelCalls` that some
+   * daily model quota is left. Returns the first exhausted limit, if any.
+   * Callers without a userId can mint new session ids at will, so they are
+   * also held to the user (or session) rule per client IP.
+   */
+  protected async checkRequestLimits(
+    context: AgentContext,
+    options: { modelCalls?: boolean } = {}
+  ): Promise<RateLimitResult | undefined> {
+    const settings = this.config.settings;
+    const limiter = this.resolveRateLimiter(context);
+    if (!limiter) {
+      return undefined;
+    }
+
+    const checks: (() => Promise<RateLimitResult>)[] = [];
+    if (settings?.rateLimits?.session && context.sessionId) {
+      checks.push(() => limiter.check(`session:${context.sessionId}`, settings.rateLimits!.session!));
+    }
+    const callerRule = settings?.rateLimits?.user ?? settings?.rateLimits?.session;
+    if (context.userId) {
+      if (settings?.rateLimits?.user) {
+        checks.push(() => limiter.check(`user:${context.userId}`, settings.rateLimits!.user!));
       }
+    } else if (callerRule) {
+      checks.push(() => limiter.check(`anonymous:${context.clientIp ?? 'unknown'}`, callerRule));
+    }
+    if (options.modelCalls && settings?.dailyModelCalls) {
+      // Cost 0: only check that at least one call is left
+      checks.push(() => limiter.quota(`model:${callerKey(context)}`, settings.dailyModelCalls!, 0));
     }
 
-    return { error: `Tool ${toolName} has no execute function` };
+    for (const check of checks) {
+      const result = await check();
+      if (!result.allowed) {
+        return result;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Count a model call against `settings.dailyModelCalls`
+   */
+  private async consumeModelQuota(context: AgentContext): Promise<void> {
+    const limit = this.config.settings?.dailyModelCalls;
+    const limiter = limit ? this.resolveRateLimiter(context) : undefined;
+    if (!limit || !limiter) {
+      return;
+    }
+
+    const result = await limiter.quota(`model:${callerKey(context)}`, limit);
+    if (!result.allowed) {
+      throw new RateLimitError('Daily model call quota exceeded', result.retryAfterSeconds!);
+    }
+  }
+
+  /**
+   * Job store polled by local executors. Defaults to the context KV namespace.
+   */
+  protected resolveJobStore(context: AgentContext): JobStore | undefined {
+    if (this.jobStore) {
+      return this.jobStore;
+    }
+    return context.kv ? createJobStore(context.kv) : undefined;
   }
 
   /**
-   * Handle chat message - override in subclass for custom AI integration
+   * Handle chat message - override in subclass for custom AI integration.
+   * Streaming `/chat` requests go through handleChatStream instead.
    */
-  abstract handleChat(
+  async handleChat(
     message: string,
     context: AgentContext
-  ): Promise<ChatResponse>;
+  ): Promise<ChatResponse> {
+    return this.runConversation(message, context);
+  }
+
+  /**
+   * Handle a streaming (SSE/NDJSON) chat message - override together with
+   * handleChat so both paths share the same custom integration
+   */
+  handleChatStream(
+    message: string,
+    context: AgentContext
+  ): AsyncIterable<AgentStreamEvent> {
+    return this.streamConversation(message, context);
+  }
 
   /**
    * Create HTTP response handler for Cloudflare Workers
    */
-  createFetchHandler() {
+  createFetchHandler(options: FetchHandlerOptions = {}) {
     const agent = this;
+    const verify = options.verifyToken ?? verifyToken;
 
     return async (request: Request, env: Record<string, any>): Promise<Response> => {
       const url = new URL(request.url);
       const path = url.pathname;
 
-      const corsHeaders = {
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-      };
+      const corsHeaders = buildCorsHeaders(request, options.allowedOrigins);
 
       if (request.method === 'OPTIONS') {
         return new Response(null, { headers: corsHeaders });
@@ -185,6 +1007,36 @@ export abstract class BaseAgent {
           return jsonResponse(agent.getHealth(), corsHeaders);
         }
 
+        // Manifest in the canonical registry format
+        if (path === '/manifest') {
+          const manifest = agent.getManifest();
+          return manifest
+            ? jsonResponse(manifest, corsHeaders)
+            : jsonResponse({ error: 'Manifest not configured' }, corsHeaders, 404);
+        }
+
+        // Everything past this point may require a bearer token
+        let user: AuthUser | undefined;
+        const authorization = request.headers.get('Authorization');
+        if (authorization?.startsWith('Bearer ')) {
+          try {
+            user = await verify(authorization.slice(7));
+          } catch {
+            return unauthorizedResponse('Invalid or expired token', corsHeaders);
+          }
+        } else if (options.requireAuth) {
+          return unauthorizedResponse('Bearer token required', corsHeaders);
+        }
+
+        const baseContext: AgentContext = {
+          env,
+          kv: env.KV || env.KONDO_STATE,
+          ai: env.AI,
+          user,
+          userId: user?.id,
+          clientIp: request.headers.get('CF-Connecting-IP') || undefined,
+        };
+
         // Tools list
         if (path === '/tools') {
           return jsonResponse({
@@ -192,28 +1044,99 @@ export abstract class BaseAgent {
           }, corsHeaders);
         }
 
+        // Model Context Protocol (JSON-RPC over HTTP)
+        if (path === '/mcp') {
+          const limited = await agent.checkRequestLimits(baseContext);
+          if (limited) {
+            return rateLimitedResponse(limited, corsHeaders);
+          }
+          return handleMcpHttpRequest(createMcpServer(agent), request, baseContext, corsHeaders);
+        }
+
         // Chat endpoint
         if (path === '/chat' && request.method === 'POST') {
-          const body = await request.json() as { message: string; sessionId?: string };
+          const body = await request.json() as { message: string; sessionId?: string; userId?: string };
 
           if (!body.message) {
             return jsonResponse({ error: 'message required' }, corsHeaders, 400);
           }
 
+          // Delegating agents forward depth, chain, trace and the end user.
+          // A userId in the body is only trusted from an authenticated caller
+          // holding the delegation role; anyone else is who their token says.
+          // The end user's roles are unknown, so the delegate's own roles and
+          // permissions are not lent to them.
+          const onBehalfOf = user && hasRoles(user, [DELEGATION_ROLE]) ? body.userId : undefined;
           const context: AgentContext = {
-            env,
-            kv: env.KV || env.KONDO_STATE,
-            ai: env.AI,
+            ...baseContext,
+            ...readDelegationHeaders(request.headers),
             sessionId: body.sessionId,
+            user: onBehalfOf ? { id: onBehalfOf } : user,
+            userId: onBehalfOf ?? user?.id,
           };
 
+          const limited = await agent.checkRequestLimits(context, { modelCalls: true });
+          if (limited) {
+            return rateLimitedResponse(limited, corsHeaders);
+          }
+
+          const accept = request.headers.get('Accept') || '';
+          if (accept.includes('text/event-stream')) {
+            return streamResponse(agent.handleChatStream(body.message, context), 'sse', corsHeaders);
+          }
+          if (accept.includes('application/x-ndjson')) {
+            return streamResponse(agent.handleChatStream(body.message, context), 'ndjson', corsHeaders);
+          }
+
           const result = await agent.handleChat(body.message, context);
           return jsonResponse(result, corsHeaders);
         }
 
+        // Confirm or reject a pending confirmable tool call
+        if ((path === '/confirm' || path === '/reject') && request.method === 'POST') {
+          const body = await request.json() as { token: string };
+
+          if (!body.token) {
+            return jsonResponse({ error: 'token required' }, corsHeaders, 400);
+          }
+
+          const limited = await agent.checkRequestLimits(baseContext);
+          if (limited) {
+            return rateLimitedResponse(limited, corsHeaders);
+          }
+
+          const result = path === '/confirm'
+            ? await agent.confirmTool(body.token, baseContext)
+            : await agent.rejectTool(body.token, baseContext);
+
+          return jsonResponse(result, corsHeaders, result.error ? 404 : 200);
+        }
+
+        // Job queue for local executors. The workerId is chosen by the
+        // client, so only callers holding the executor role get in at all.
+        if (path === '/jobs' || path.startsWith('/jobs/')) {
+          if (!user) {
+            return unauthorizedResponse('Bearer token required', corsHeaders);
+          }
+          if (!hasRoles(user, [JOB_EXECUTOR_ROLE])) {
+            return jsonResponse({ error: `Job routes require the ${JOB_EXECUTOR_ROLE} role` }, corsHeaders, 403);
+          }
+          const jobs = agent.resolveJobStore(baseContext);
+          if (!jobs) {
+            return jsonResponse({ error: 'Job queue not configured' }, corsHeaders, 501);
+          }
+          return handleJobRoute(jobs, request, path, corsHeaders);
+        }
+
         return jsonResponse({ error: 'Not found' }, corsHeaders, 404);
 
       } catch (error) {
+        if (error instanceof RateLimitError) {
+          return rateLimitedResponse(error, corsHeaders);
+        }
+        if (error instanceof SessionOwnerError) {
+          return jsonResponse({ error: error.message }, corsHeaders, 403);
+        }
         console.error('Agent error:', error);
         return jsonResponse({
           error: 'Internal server error',
@@ -226,6 +1149,169 @@ export abstract class BaseAgent {
 
 // ============ Utilities ============
 
+class ToolTimeoutError extends Error {}
+
+/**
+ * Reject after `timeoutMs`, aborting `controller` so the work itself stops
+ */
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, controller: AbortController): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new ToolTimeoutError();
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(concurrency, 1), items.length) }, worker));
+  return results;
+}
+
+/**
+ * Job lifecycle routes, for callers holding JOB_EXECUTOR_ROLE:
+ *   POST /jobs/claim            { workerId, types?, leaseSeconds? }
+ *   GET  /jobs/:id
+ *   POST /jobs/:id/progress     { workerId, percent?, message? }
+ *   POST /jobs/:id/complete     { workerId, result? }
+ *   POST /jobs/:id/fail         { workerId, error }
+ */
+async function handleJobRoute(
+  jobs: JobStore,
+  request: Request,
+  path: string,
+  corsHeaders: Record<string, string>
+): Promise<Response> {
+  const [, , jobId, action] = path.split('/');
+
+  if (jobId === 'claim' && !action && request.method === 'POST') {
+    const body = await request.json() as { workerId: string; types?: string[]; leaseSeconds?: number };
+    if (!body.workerId) {
+      return jsonResponse({ error: 'workerId required' }, corsHeaders, 400);
+    }
+    const job = await jobs.claimNextJob(body.workerId, {
+      types: body.types,
+      leaseSeconds: body.leaseSeconds,
+    });
+    return jsonResponse({ job }, corsHeaders);
+  }
+
+  if (jobId && !action && request.method === 'GET') {
+    const job = await jobs.getJob(jobId);
+    return job
+      ? jsonResponse(job, corsHeaders)
+      : jsonResponse({ error: 'Job not found' }, corsHeaders, 404);
+  }
+
+  if (jobId && action && request.method === 'POST') {
+    const body = await request.json() as {
+      workerId: string;
+      percent?: number;
+      message?: string;
+      result?: any;
+      error?: string;
+    };
+    if (!body.workerId) {
+      return jsonResponse({ error: 'workerId required' }, corsHeaders, 400);
+    }
+
+    try {
+      switch (action) {
+        case 'progress':
+          return jsonResponse(await jobs.updateJobProgress(jobId, body.workerId, {
+            percent: body.percent,
+            message: body.message,
+          }), corsHeaders);
+        case 'complete':
+          return jsonResponse(await jobs.completeJob(jobId, body.workerId, body.result), corsHeaders);
+        case 'fail':
+          return jsonResponse(
+            await jobs.failJob(jobId, body.workerId, body.error || 'Unknown error'),
+            corsHeaders
+          );
+      }
+    } catch (error) {
+      return jsonResponse({
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, corsHeaders, 409);
+    }
+  }
+
+  return jsonResponse({ error: 'Not found' }, corsHeaders, 404);
+}
+
+function buildCorsHeaders(request: Request, allowedOrigins?: string[]): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  };
+
+  if (!allowedOrigins) {
+    headers['Access-Control-Allow-Origin'] = '*';
+    return headers;
+  }
+
+  const origin = request.headers.get('Origin');
+  if (origin && (allowedOrigins.includes(origin) || allowedOrigins.includes('*'))) {
+    headers['Access-Control-Allow-Origin'] = origin;
+  }
+  headers['Vary'] = 'Origin';
+
+  return headers;
+}
+
+function rateLimitedResponse(
+  limit: { retryAfterSeconds?: number; message?: string },
+  corsHeaders: Record<string, string>
+): Response {
+  const retryAfter = String(limit.retryAfterSeconds ?? 1);
+  return jsonResponse(
+    { error: 'Too many requests', message: limit.message, retryAfter: Number(retryAfter) },
+    { ...corsHeaders, 'Retry-After': retryAfter },
+    429
+  );
+}
+
+function unauthorizedResponse(message: string, corsHeaders: Record<string, string>): Response {
+  return jsonResponse(
+    { error: 'Unauthorized', message },
+    { ...corsHeaders, 'WWW-Authenticate': 'Bearer' },
+    401
+  );
+}
+
+/**
+ * Rate limit key for the caller: user, else client IP, else session, else
+ * shared anonymous
+ */
+function callerKey(context: AgentContext): string {
+  if (context.userId) return `user:${context.userId}`;
+  if (context.clientIp) return `ip:${context.clientIp}`;
+  if (context.sessionId) return `session:${context.sessionId}`;
+  return 'anonymous';
+}
+
 function jsonResponse(
   data: any,
   corsHeaders: Record<string, string>,
@@ -236,3 +1322,42 @@ function jsonResponse(
     headers: { ...corsHeaders, 'Content-Type': 'application/json' },
   });
 }
+
+/**
+ * Stream agent events as Server-Sent Events or newline-delimited JSON
+ */
+function streamResponse(
+  events: AsyncIterable<AgentStreamEvent>,
+  format: 'sse' | 'ndjson',
+  corsHeaders: Record<string, string>
+): Response {
+  const encoder = new TextEncoder();
+  const frame = (event: AgentStreamEvent) => format === 'sse'
+    ? `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`
+    : `${JSON.stringify(event)}\n`;
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for await (const event of events) {
+          controller.enqueue(encoder.encode(frame(event)));
+        }
+      } catch (error) {
+        console.error('Agent stream error:', error);
+        controller.enqueue(encoder.encode(frame({
+          type: 'error',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        })));
+      }
+      controller.close();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': format === 'sse' ? 'text/event-stream' : 'application/x-ndjson',
+      'Cache-Control': 'no-cache',
+    },
+  });
+}
@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createConfirmationStore } from './confirmation-store';
+import { createMemoryKV, type KVLike } from './kv';
+
+const pending = { toolName: 'delete_file', toolArgs: { path: '/tmp/a' }, message: 'Delete /tmp/a?' };
+
+/** KV that rejects TTLs Cloudflare would reject */
+function createStrictKV(): KVLike {
+  const kv = createMemoryKV();
+  return {
+    ...kv,
+    async put(key, value, options) {
+      if (options?.expirationTtl !== undefined && options.expirationTtl < 60) {
+        throw new Error(`Invalid expiration_ttl of ${options.expirationTtl}`);
+      }
+      return kv.put(key, value, options);
+    },
+  };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createConfirmationStore', () => {
+  it('lets only one of two concurrent takes claim a token', async () => {
+    const store = createConfirmationStore(createMemoryKV());
+    const { token } = await store.create(pending);
+
+    const taken = await Promise.all([store.take(token!), store.take(token!)]);
+
+    expect(taken.filter(Boolean)).toHaveLength(1);
+    expect(await store.get(token!)).toBeNull();
+  });
+
+  it('accepts TTLs under the KV minimum and still expires on time', async () => {
+    vi.useFakeTimers();
+    const store = createConfirmationStore(createStrictKV(), { ttlSeconds: 30 });
+    const { token } = await store.create(pending);
+
+    expect(await store.get(token!)).toMatchObject({ toolName: 'delete_file' });
+    vi.advanceTimersByTime(31_000);
+    expect(await store.take(token!)).toBeNull();
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * ChittyOS Agent Confirmation Store
+ *
+ * Holds pending confirmations for confirmable tools behind a one-time token.
+ * Taking a confirmation removes it, so an approval can be used exactly once,
+ * and tokens older than `ttlSeconds` are rejected. `get` reads without
+ * consuming, so callers can check ownership before taking.
+ *
+ * Concurrent takes of one token in the same isolate are serialized, so only
+ * one succeeds. KV has no atomic read-and-delete, so two locations taking the
+ * same token at once can both succeed; use a Durable Object-backed KVLike
+ * where that matters.
+ */
+
+import type { PendingConfirmation } from './types';
+import { createMemoryKV, type KVLike } from './kv';
+
+export interface ConfirmationStoreOptions {
+  prefix?: string;
+  ttlSeconds?: number;
+}
+
+export interface ConfirmationStore {
+  create(
+    pending: Omit<PendingConfirmation, 'token' | 'createdAt' | 'expiresAt'>
+  ): Promise<PendingConfirmation>;
+  get(token: string): Promise<PendingConfirmation | null>;
+  take(token: string): Promise<PendingConfirmation | null>;
+}
+
+const DEFAULT_CONFIRMATION_TTL = 900;
+
+/** Tokens being taken in this isolate, per KV namespace */
+const claiming = new WeakMap<KVLike, Set<string>>();
+
+/**
+ * Create a confirmation store backed by a KV namespace
+ */
+export function createConfirmationStore(
+  kv: KVLike,
+  options: ConfirmationStoreOptions = {}
+): ConfirmationStore {
+  const prefix = options.prefix ?? 'confirm:';
+  const ttlSeconds = options.ttlSeconds ?? DEFAULT_CONFIRMATION_TTL;
+
+  const isLive = (confirmation: PendingConfirmation) =>
+    !!confirmation.expiresAt && new Date(confirmation.expiresAt).getTime() > Date.now();
+
+  if (!claiming.has(kv)) claiming.set(kv, new Set());
+  const inFlight = claiming.get(kv)!;
+
+  return {
+    async create(pending) {
+      const now = new Date();
+      const confirmation: PendingConfirmation = {
+        ...pending,
+        token: `${crypto.randomUUID()}${crypto.randomUUID()}`.replace(/-/g, ''),
+        createdAt: now.toISOString(),
+        expiresAt: new Date(now.getTime() + ttlSeconds * 1000).toISOString(),
+      };
+
+      await kv.put(`${prefix}${confirmation.token}`, JSON.stringify(confirmation), {
+        // KV requires a TTL of at least 60 seconds; isLive enforces the exact expiry
+        expirationTtl: Math.max(60, Math.ceil(ttlSeconds)),
+      });
+
+      return confirmation;
+    },
+
+    async get(token) {
+      const raw = await kv.get(`${prefix}${token}`);
+      if (!raw) return null;
+
+      const confirmation = JSON.parse(raw) as PendingConfirmation;
+      return isLive(confirmation) ? confirmation : null;
+    },
+
+    async take(token) {
+      const key = `${prefix}${token}`;
+
+      // Checked before the first await, so a concurrent take cannot slip in
+      if (inFlight.has(key)) return null;
+      inFlight.add(key);
+
+      try {
+        const raw = await kv.get(key);
+        if (!raw) return null;
+
+        await kv.delete(key);
+
+        const confirmation = JSON.parse(raw) as PendingConfirmation;
+        return isLive(confirmation) ? confirmation : null;
+      } finally {
+        inFlight.delete(key);
+      }
+    },
+  };
+}
+
+/**
+ * Create a confirmation store that lives in process memory
+ */
+export function createMemoryConfirmationStore(
+  options: ConfirmationStoreOptions = {}
+): ConfirmationStore {
+  return createConfirmationStore(createMemoryKV(), options);
+}
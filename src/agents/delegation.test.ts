@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest';
+import { BaseAgent } from './base-agent';
+import {
+  createDelegateTool,
+  DELEGATION_CHAIN_HEADER,
+  DELEGATION_DEPTH_HEADER,
+  DELEGATION_ROLE,
+  readDelegationHeaders,
+} from './delegation';
+import { createTool } from './tool-builder';
+import { callTool, createAgentHarness, reply } from './testing';
+import type { AuthUser } from '../auth';
+import type { AgentContext, AgentManifest, ToolDefinition } from './types';
+
+class FleetAgent extends BaseAgent {}
+
+const manifest: AgentManifest = {
+  name: 'analytics',
+  version: '1.0.0',
+  description: 'Answers usage questions',
+  tier: 2,
+  category: 'domain',
+  status: 'active',
+  toolCategories: [],
+  model: { provider: 'workers-ai', name: 'test-model' },
+  endpoints: { chat: '/chat', health: '/health' },
+  maintainer: 'ChittyOS',
+  repository: 'https://github.com/chittyos/chittycore',
+};
+
+const whoami = createTool({
+  name: 'whoami',
+  description: 'Report the caller',
+  category: 'test',
+  parameters: {},
+  execute: async (_args, context) => ({ userId: context.userId }),
+});
+
+function createAgent(name: string, tools: ToolDefinition[] = []) {
+  return new FleetAgent({
+    name,
+    version: '1.0.0',
+    description: `${name} agent`,
+    model: 'test-model',
+    systemPrompt: 'Test',
+    toolCategories: [{ name: 'test', description: 'Test tools', tools }],
+  });
+}
+
+const tokens: Record<string, AuthUser> = {
+  'service-token': { id: 'ops-agent', roles: [DELEGATION_ROLE, 'admin'] },
+  'alice-token': { id: 'alice' },
+};
+const verifyToken = async (token: string) => tokens[token];
+
+describe('createDelegateTool', () => {
+  it('forwards the message, user and delegation headers to the remote agent', async () => {
+    const remote = createAgentHarness(createAgent('analytics'), [reply('42 requests today')]);
+    const requests: Request[] = [];
+    const handler = remote.agent.createFetchHandler({ verifyToken });
+    const delegate = createDelegateTool(manifest, {
+      from: 'ops-agent',
+      url: 'https://analytics.test',
+      token: 'service-token',
+      fetch: (input, init) => {
+        const request = new Request(input, init);
+        requests.push(request.clone());
+        return handler(request, remote.env);
+      },
+    });
+    const context: AgentContext = { env: {}, userId: 'alice', sessionId: 's1', traceId: 'trace-1' };
+
+    const result = await delegate.execute!({ message: 'How busy are we?' }, context);
+
+    expect(result).toMatchObject({ success: true, agent: 'analytics', response: '42 requests today' });
+    expect(requests[0].headers.get(DELEGATION_DEPTH_HEADER)).toBe('1');
+    expect(requests[0].headers.get(DELEGATION_CHAIN_HEADER)).toBe('ops-agent');
+    expect(await requests[0].json()).toMatchObject({ sessionId: 's1/analytics', userId: 'alice' });
+  });
+
+  it('passes the tool call signal to the remote request', async () => {
+    const controller = new AbortController();
+    let signal: AbortSignal | null | undefined;
+    const delegate = createDelegateTool(manifest, {
+      url: 'https://analytics.test',
+      fetch: async (_input, init) => {
+        signal = init?.signal;
+        return Response.json({ success: true, response: 'ok' });
+      },
+    });
+
+    await delegate.execute!({ message: 'hi' }, { env: {}, signal: controller.signal });
+
+    expect(signal).toBe(controller.signal);
+  });
+
+  it('stops at the depth limit and on loops', async () => {
+    const delegate = createDelegateTool(manifest, { from: 'ops-agent', url: 'https://analytics.test', maxDepth: 2 });
+
+    expect(await delegate.execute!({ message: 'hi' }, { env: {}, delegationDepth: 2 })).toEqual({
+      success: false,
+      error: 'Delegation depth limit reached (2)',
+    });
+    expect(await delegate.execute!({ message: 'hi' }, { env: {}, delegationChain: ['analytics'] })).toEqual({
+      success: false,
+      error: 'Delegation loop: analytics -> ops-agent -> analytics',
+    });
+  });
+});
+
+describe('readDelegationHeaders', () => {
+  it('parses depth, chain and trace id', () => {
+    const headers = new Headers({
+      [DELEGATION_DEPTH_HEADER]: '2',
+      [DELEGATION_CHAIN_HEADER]: 'ops-agent, analytics',
+      'X-Chitty-Trace-Id': 'trace-1',
+    });
+
+    expect(readDelegationHeaders(headers)).toEqual({
+      delegationDepth: 2,
+      delegationChain: ['ops-agent', 'analytics'],
+      traceId: 'trace-1',
+    });
+  });
+});
+
+describe('/chat userId', () => {
+  async function chatAs(headers: Record<string, string>, userId = 'alice') {
+    const harness = createAgentHarness(createAgent('analytics', [whoami]), [
+      callTool('whoami'),
+      reply('done'),
+    ]);
+    await harness.request({
+      path: '/chat',
+      body: { message: 'Who am I?', userId },
+      headers,
+      handlerOptions: { verifyToken },
+    });
+    return JSON.parse(harness.model.requests[1].messages.at(-1)!.content).userId;
+  }
+
+  it('trusts a body userId only from a caller with the delegation role', async () => {
+    expect(await chatAs({ Authorization: 'Bearer service-token' })).toBe('alice');
+  });
+
+  it('does not lend the delegate token roles to the end user', async () => {
+    const purge = createTool({ ...whoami, name: 'purge', requiredRoles: ['admin'] });
+    const harness = createAgentHarness(createAgent('analytics', [purge]), [
+      callTool('purge'),
+      reply('no access'),
+    ]);
+
+    await harness.request({
+      path: '/chat',
+      body: { message: 'Purge', userId: 'alice' },
+      headers: { Authorization: 'Bearer service-token' },
+      handlerOptions: { verifyToken },
+    });
+
+    expect(harness.toolCalls('purge')[0]).toMatchObject({ outcome: 'forbidden' });
+  });
+
+  it('ignores a body userId from anonymous and ordinary callers', async () => {
+    expect(await chatAs({})).toBeUndefined();
+    expect(await chatAs({ Authorization: 'Bearer alice-token' }, 'bob')).toBe('alice');
+  });
+
+  it('lets an anonymous caller confirm the call it started', async () => {
+    const remove = createTool({ ...whoami, name: 'remove', requiresConfirmation: true });
+    const harness = createAgentHarness(createAgent('analytics', [remove]), [
+      callTool('remove'),
+    ]);
+
+    const chat = await harness.request({ path: '/chat', body: { message: 'Remove it', userId: 'alice' } });
+    const confirm = await harness.request({ path: '/confirm', body: { token: chat.body.pendingConfirmation.token } });
+
+    expect(confirm.status).toBe(200);
+    expect(confirm.body).toMatchObject({ confirmed: true });
+  });
+});
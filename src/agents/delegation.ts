@@ -0,0 +1,162 @@
+/**
+ * ChittyOS Agent Delegation
+ *
+ * Wraps another agent's manifest and `/chat` endpoint as a ToolDefinition,
+ * so one agent in the fleet can ask another (e.g. operations -> analytics).
+ * Remote agents are located through the service registry unless a URL is
+ * given. Delegation depth and the chain of agents visited travel in request
+ * headers, which stops runaway recursion and A -> B -> A loops. The end
+ * user's id is forwarded too, but a receiving agent only trusts it when the
+ * delegate token carries the `DELEGATION_ROLE` role, and then runs with no
+ * roles or permissions, since the end user's are unknown to it.
+ *
+ * Usage:
+ *   const askAnalytics = createDelegateTool(analyticsManifest, { from: 'ops-agent' });
+ *   const tools = await discoverDelegateTools({ from: 'ops-agent', filter: m => m.tier <= 2 });
+ */
+
+import type { AgentContext, AgentManifest, ChatResponse, ToolDefinition } from './types';
+
+export const DELEGATION_DEPTH_HEADER = 'X-Chitty-Delegation-Depth';
+export const DELEGATION_CHAIN_HEADER = 'X-Chitty-Delegation-Chain';
+export const TRACE_ID_HEADER = 'X-Chitty-Trace-Id';
+
+/** Role that lets an authenticated caller act on behalf of the `userId` it sends */
+export const DELEGATION_ROLE = 'agent-delegate';
+
+const DEFAULT_MAX_DELEGATION_DEPTH = 3;
+
+export interface DelegateToolOptions {
+  /** Name of the delegating agent, recorded in the delegation chain */
+  from?: string;
+  /** Tool name; defaults to `delegate_<agent name>` */
+  name?: string;
+  description?: string;
+  category?: string;
+  /** Base URL of the remote agent; looked up in the registry when omitted */
+  url?: string;
+  /** Bearer token sent to the remote agent; needs `DELEGATION_ROLE` to forward the user */
+  token?: string;
+  /** Maximum nesting of delegated calls (default: 3) */
+  maxDepth?: number;
+  /** Fetch implementation, e.g. a Workers service binding */
+  fetch?: (input: string, init?: RequestInit) => Promise<Response>;
+}
+
+/**
+ * Read delegation depth, chain and trace id from an incoming request
+ */
+export function readDelegationHeaders(
+  headers: Headers
+): Pick<AgentContext, 'delegationDepth' | 'delegationChain' | 'traceId'> {
+  const depth = parseInt(headers.get(DELEGATION_DEPTH_HEADER) || '', 10);
+  const chain = headers.get(DELEGATION_CHAIN_HEADER);
+
+  return {
+    delegationDepth: Number.isFinite(depth) && depth > 0 ? depth : undefined,
+    delegationChain: chain ? chain.split(',').map(name => name.trim()).filter(Boolean) : undefined,
+    traceId: headers.get(TRACE_ID_HEADER) || undefined,
+  };
+}
+
+/**
+ * Create a tool that forwards a message to a remote agent's chat endpoint.
+ * The child session id is namespaced under the caller's so both agents can
+ * share a KV namespace without overwriting each other's history.
+ */
+export function createDelegateTool(
+  manifest: AgentManifest,
+  options: DelegateToolOptions = {}
+): ToolDefinition {
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DELEGATION_DEPTH;
+  const doFetch = options.fetch ?? ((input, init) => fetch(input, init));
+
+  return {
+    name: options.name ?? `delegate_${manifest.name.replace(/[^a-zA-Z0-9_]/g, '_')}`,
+    description: options.description ?? `Ask the ${manifest.name} agent: ${manifest.description}`,
+    category: options.category ?? 'delegation',
+    parameters: {
+      message: {
+        type: 'string',
+        description: `Request for the ${manifest.name} agent`,
+        required: true,
+      },
+    },
+    execute: async (args, context) => {
+      const depth = (context.delegationDepth ?? 0) + 1;
+      if (depth > maxDepth) {
+        return { success: false, error: `Delegation depth limit reached (${maxDepth})` };
+      }
+
+      const chain = [...(context.delegationChain ?? []), ...(options.from ? [options.from] : [])];
+      if (chain.includes(manifest.name)) {
+        return {
+          success: false,
+          error: `Delegation loop: ${[...chain, manifest.name].join(' -> ')}`,
+        };
+      }
+
+      const baseUrl = options.url ?? await resolveAgentUrl(manifest.name);
+      if (!baseUrl) {
+        return { success: false, error: `Agent ${manifest.name} not found in registry` };
+      }
+
+      const response = await doFetch(new URL(manifest.endpoints.chat, baseUrl).toString(), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [DELEGATION_DEPTH_HEADER]: String(depth),
+          ...(chain.length && { [DELEGATION_CHAIN_HEADER]: chain.join(',') }),
+          ...(context.traceId && { [TRACE_ID_HEADER]: context.traceId }),
+          ...(options.token && { Authorization: `Bearer ${options.token}` }),
+        },
+        body: JSON.stringify({
+          message: args.message,
+          sessionId: context.sessionId && `${context.sessionId}/${manifest.name}`,
+          userId: context.userId,
+        }),
+        signal: context.signal,
+      });
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: `Agent ${manifest.name} returned ${response.status}: ${await response.text()}`,
+        };
+      }
+
+      const result = await response.json() as ChatResponse;
+      return {
+        success: result.success,
+        agent: manifest.name,
+        response: result.response,
+        toolsUsed: result.toolsUsed,
+        pendingConfirmation: result.pendingConfirmation,
+      };
+    },
+  };
+}
+
+/**
+ * Create delegate tools for every registered service that publishes an
+ * AgentManifest in its metadata (`metadata.manifest`)
+ */
+export async function discoverDelegateTools(
+  options: Omit<DelegateToolOptions, 'name' | 'description' | 'url'> & {
+    filter?: (manifest: AgentManifest) => boolean;
+  } = {}
+): Promise<ToolDefinition[]> {
+  const { getAllServices } = await import('../registry');
+  const { filter, ...toolOptions } = options;
+
+  return getAllServices()
+    .filter(service => service.metadata?.manifest)
+    .map(service => ({ service, manifest: service.metadata!.manifest as AgentManifest }))
+    .filter(({ manifest }) => manifest.name !== options.from && (!filter || filter(manifest)))
+    .map(({ service, manifest }) => createDelegateTool(manifest, { ...toolOptions, url: service.url }));
+}
+
+async function resolveAgentUrl(name: string): Promise<string | undefined> {
+  const { getService } = await import('../registry');
+  return getService(name)?.url;
+}
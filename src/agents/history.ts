@@ -0,0 +1,52 @@
+/**
+ * ChittyOS Agent History
+ *
+ * Helpers for keeping conversation transcripts within a model's budget.
+ */
+
+import type { ChatMessage } from './types';
+
+/**
+ * Rough token estimate (~4 characters per token), good enough for budgeting
+ * without shipping a tokenizer to the Worker.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Estimate the tokens used by a single message, including tool call payloads
+ */
+export function estimateMessageTokens(message: ChatMessage): number {
+  const toolCalls = message.toolCalls?.length ? JSON.stringify(message.toolCalls) : '';
+  return estimateTokens(message.content) + estimateTokens(toolCalls) + 4;
+}
+
+/**
+ * Drop the oldest messages until the history fits both budgets.
+ * Leading `tool` messages are dropped too, since their assistant turn is gone.
+ */
+export function trimHistory(
+  messages: ChatMessage[],
+  budget: { maxMessages?: number; maxTokens?: number }
+): ChatMessage[] {
+  let start = 0;
+
+  if (budget.maxMessages !== undefined && messages.length > budget.maxMessages) {
+    start = messages.length - budget.maxMessages;
+  }
+
+  if (budget.maxTokens !== undefined) {
+    let total = messages.slice(start).reduce((sum, m) => sum + estimateMessageTokens(m), 0);
+    while (start < messages.length && total > budget.maxTokens) {
+      total -= estimateMessageTokens(messages[start]);
+      start++;
+    }
+  }
+
+  while (start < messages.length && messages[start].role === 'tool') {
+    start++;
+  }
+
+  return messages.slice(start);
+}
@@ -12,3 +12,17 @@ export * from './types';
 export * from './base-agent';
 export * from './tool-builder';
 export * from './templates';
+export * from './providers';
+export * from './kv';
+export * from './history';
+export * from './session-store';
+export * from './confirmation-store';
+export * from './validation';
+export * from './jobs';
+export * from './tracing';
+export * from './delegation';
+export * from './manifest';
+export * from './scaffold';
+export * from './mcp';
+export * from './prompt';
+export * from './rate-limit';
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BaseAgent } from './base-agent';
+import { createJobStore, createMemoryJobStore, JOB_EXECUTOR_ROLE } from './jobs';
+import { createAgentHarness } from './testing';
+import type { AuthUser } from '../auth';
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createJobStore', () => {
+  it('claims, reports progress and completes a job', async () => {
+    const jobs = createMemoryJobStore();
+    const job = await jobs.enqueue('cleanup', { path: '/tmp' });
+
+    const claimed = await jobs.claimNextJob('worker-1');
+    expect(claimed).toMatchObject({ jobId: job.jobId, status: 'running', claimedBy: 'worker-1', attempts: 1 });
+    expect(await jobs.claimNextJob('worker-2')).toBeNull();
+
+    await jobs.updateJobProgress(job.jobId, 'worker-1', { percent: 50 });
+    const completed = await jobs.completeJob(job.jobId, 'worker-1', { freed: '2GB' });
+
+    expect(completed).toMatchObject({ status: 'completed', result: { freed: '2GB' }, progress: { percent: 50 } });
+  });
+
+  it('only lets the lease holder report on a job', async () => {
+    const jobs = createMemoryJobStore();
+    const job = await jobs.enqueue('cleanup', {});
+    await jobs.claimNextJob('worker-1');
+
+    await expect(jobs.completeJob(job.jobId, 'worker-2')).rejects.toThrow('is not leased by worker worker-2');
+  });
+
+  it('retries failed jobs after a backoff until maxAttempts', async () => {
+    const jobs = createMemoryJobStore({ backoffBaseSeconds: 10 });
+    const job = await jobs.enqueue('cleanup', {}, { maxAttempts: 2 });
+
+    await jobs.claimNextJob('worker-1');
+    const retried = await jobs.failJob(job.jobId, 'worker-1', 'disk busy');
+    expect(retried).toMatchObject({ status: 'pending', error: 'disk busy' });
+    expect(await jobs.claimNextJob('worker-1')).toBeNull();
+
+    vi.advanceTimersByTime(10_000);
+    await jobs.claimNextJob('worker-1');
+    const failed = await jobs.failJob(job.jobId, 'worker-1', 'disk busy');
+
+    expect(failed).toMatchObject({ status: 'failed', attempts: 2 });
+  });
+
+  it('counts an expired lease as a failed attempt', async () => {
+    const jobs = createMemoryJobStore({ leaseSeconds: 60, backoffBaseSeconds: 10 });
+    const job = await jobs.enqueue('cleanup', {}, { maxAttempts: 2 });
+    await jobs.claimNextJob('worker-1');
+
+    vi.advanceTimersByTime(60_000);
+    expect(await jobs.claimNextJob('worker-2')).toBeNull();
+    expect(await jobs.getJob(job.jobId)).toMatchObject({ status: 'pending', error: 'Lease expired' });
+
+    vi.advanceTimersByTime(10_000);
+    expect(await jobs.claimNextJob('worker-2')).toMatchObject({ attempts: 2 });
+
+    vi.advanceTimersByTime(60_000);
+    expect(await jobs.claimNextJob('worker-3')).toBeNull();
+    expect(await jobs.getJob(job.jobId)).toMatchObject({ status: 'failed', attempts: 2, error: 'Lease expired' });
+
+    vi.advanceTimersByTime(3_600_000);
+    expect(await jobs.claimNextJob('worker-3')).toBeNull();
+  });
+});
+
+class QueueAgent extends BaseAgent {}
+
+describe('/jobs routes', () => {
+  const tokens: Record<string, AuthUser> = {
+    'executor-token': { id: 'laptop', roles: [JOB_EXECUTOR_ROLE] },
+    'alice-token': { id: 'alice' },
+  };
+  const handlerOptions = { verifyToken: async (token: string) => tokens[token] };
+
+  async function setup() {
+    const harness = createAgentHarness(new QueueAgent({
+      name: 'queue-agent',
+      version: '1.0.0',
+      description: 'Queues jobs',
+      model: 'test-model',
+      systemPrompt: 'Test',
+      toolCategories: [],
+    }));
+    const job = await createJobStore(harness.kv).enqueue('cleanup', { path: '/tmp' });
+    const send = (path: string, body?: Record<string, any>, token = 'executor-token') => harness.request({
+      path,
+      method: body ? 'POST' : 'GET',
+      body,
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+      handlerOptions,
+    });
+    return { job, send };
+  }
+
+  it('lets an executor claim, report on and complete a job', async () => {
+    const { job, send } = await setup();
+
+    const claimed = await send('/jobs/claim', { workerId: 'laptop-1' });
+    expect(claimed.body.job).toMatchObject({ jobId: job.jobId, status: 'running', args: { path: '/tmp' } });
+
+    const progress = await send(`/jobs/${job.jobId}/progress`, { workerId: 'laptop-1', percent: 50 });
+    expect(progress.body).toMatchObject({ progress: { percent: 50 } });
+
+    expect((await send(`/jobs/${job.jobId}/complete`, { workerId: 'laptop-2' })).status).toBe(409);
+    const completed = await send(`/jobs/${job.jobId}/complete`, { workerId: 'laptop-1', result: { freed: '2GB' } });
+    expect(completed.body).toMatchObject({ status: 'completed', result: { freed: '2GB' } });
+    expect((await send(`/jobs/${job.jobId}`)).body).toMatchObject({ status: 'completed' });
+  });
+
+  it('records a failed attempt', async () => {
+    const { job, send } = await setup();
+    await send('/jobs/claim', { workerId: 'laptop-1' });
+
+    const failed = await send(`/jobs/${job.jobId}/fail`, { workerId: 'laptop-1', error: 'disk busy' });
+
+    expect(failed.body).toMatchObject({ status: 'pending', error: 'disk busy', attempts: 1 });
+  });
+
+  it('turns away callers without the executor role', async () => {
+    const { job, send } = await setup();
+
+    expect((await send('/jobs/claim', { workerId: 'x' }, '')).status).toBe(401);
+    const denied = await send(`/jobs/${job.jobId}`, undefined, 'alice-token');
+    expect(denied.status).toBe(403);
+    expect(denied.body).toEqual({ error: `Job routes require the ${JOB_EXECUTOR_ROLE} role` });
+    expect((await send('/jobs/claim', { workerId: 'x' }, 'alice-token')).status).toBe(403);
+  });
+});
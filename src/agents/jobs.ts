@@ -0,0 +1,238 @@
+/**
+ * ChittyOS Agent Job Queue
+ *
+ * Lifecycle for jobs queued by Worker tools and executed by local agents:
+ * claim with a lease, report progress, then complete or fail. Failed jobs are
+ * retried with exponential backoff until `maxAttempts` is reached. A lease
+ * that expires counts as a failed attempt and goes through the same path.
+ *
+ * KV has no compare-and-swap, so claims are best-effort; a claim is re-read
+ * after writing and abandoned if another worker won the race.
+ *
+ * The `/jobs` HTTP routes only serve callers holding `JOB_EXECUTOR_ROLE`;
+ * job args and results are not visible to ordinary users.
+ *
+ * Usage:
+ *   const jobs = createJobStore(env.KV);
+ *   const job = await jobs.claimNextJob('laptop-1');
+ *   if (job) await jobs.completeJob(job.jobId, 'laptop-1', { freed: '2GB' });
+ */
+
+import type { JobQueue } from './types';
+import { createMemoryKV, type KVLike } from './kv';
+
+/** Role that lets an authenticated caller claim, report on and read jobs over HTTP */
+export const JOB_EXECUTOR_ROLE = 'job-executor';
+
+export interface JobStoreOptions {
+  prefix?: string;
+  ttlSeconds?: number;
+  leaseSeconds?: number;
+  maxAttempts?: number;
+  backoffBaseSeconds?: number;
+  backoffMaxSeconds?: number;
+}
+
+export interface JobProgress {
+  percent?: number;
+  message?: string;
+}
+
+export interface JobStore {
+  enqueue(type: string, args: Record<string, any>, options?: { maxAttempts?: number }): Promise<JobQueue>;
+  getJob(jobId: string): Promise<JobQueue | null>;
+  claimNextJob(
+    workerId: string,
+    options?: { types?: string[]; leaseSeconds?: number }
+  ): Promise<JobQueue | null>;
+  updateJobProgress(jobId: string, workerId: string, progress: JobProgress): Promise<JobQueue>;
+  completeJob(jobId: string, workerId: string, result?: any): Promise<JobQueue>;
+  failJob(jobId: string, workerId: string, error: string): Promise<JobQueue>;
+}
+
+const DEFAULT_JOB_OPTIONS = {
+  prefix: 'job:',
+  ttlSeconds: 86400,
+  leaseSeconds: 300,
+  maxAttempts: 3,
+  backoffBaseSeconds: 30,
+  backoffMaxSeconds: 3600,
+};
+
+/**
+ * Create a job store backed by a KV namespace
+ */
+export function createJobStore(kv: KVLike, options: JobStoreOptions = {}): JobStore {
+  const settings = { ...DEFAULT_JOB_OPTIONS, ...options };
+
+  const write = async (job: JobQueue) => {
+    await kv.put(`${settings.prefix}${job.jobId}`, JSON.stringify(job), {
+      expirationTtl: settings.ttlSeconds,
+    });
+    return job;
+  };
+
+  const read = async (jobId: string): Promise<JobQueue | null> => {
+    const raw = await kv.get(`${settings.prefix}${jobId}`);
+    // Jobs written by older queueJob versions have no jobId field
+    return raw ? { jobId, ...JSON.parse(raw) } : null;
+  };
+
+  const leased = async (jobId: string, workerId: string): Promise<JobQueue> => {
+    const job = await read(jobId);
+    if (!job) {
+      throw new Error(`Job ${jobId} not found`);
+    }
+    if (job.status !== 'running' || job.claimedBy !== workerId) {
+      throw new Error(`Job ${jobId} is not leased by worker ${workerId}`);
+    }
+    return job;
+  };
+
+  const isClaimable = (job: JobQueue, now: number, types?: string[]) => {
+    if (types?.length && !types.includes(job.type)) return false;
+    return job.status === 'pending' && (!job.availableAt || new Date(job.availableAt).getTime() <= now);
+  };
+
+  // Running jobs whose lease lapsed are treated as abandoned
+  const isLeaseExpired = (job: JobQueue, now: number) =>
+    job.status === 'running' && !!job.leaseExpiresAt && new Date(job.leaseExpiresAt).getTime() <= now;
+
+  /**
+   * Mark a job failed once it is out of attempts, otherwise put it back in
+   * the queue after an exponential backoff
+   */
+  const retryOrFail = (job: JobQueue, error: string, now: number) => {
+    const attempts = job.attempts ?? 1;
+    const maxAttempts = job.maxAttempts ?? settings.maxAttempts;
+
+    if (attempts >= maxAttempts) {
+      return write({
+        ...job,
+        status: 'failed',
+        error,
+        leaseExpiresAt: undefined,
+        completedAt: new Date(now).toISOString(),
+        updatedAt: new Date(now).toISOString(),
+      });
+    }
+
+    const backoffSeconds = Math.min(
+      settings.backoffBaseSeconds * 2 ** (attempts - 1),
+      settings.backoffMaxSeconds
+    );
+
+    return write({
+      ...job,
+      status: 'pending',
+      error,
+      progress: undefined,
+      claimedBy: undefined,
+      leaseExpiresAt: undefined,
+      availableAt: new Date(now + backoffSeconds * 1000).toISOString(),
+      updatedAt: new Date(now).toISOString(),
+    });
+  };
+
+  return {
+    async enqueue(type, args, enqueueOptions = {}) {
+      const now = new Date().toISOString();
+      return write({
+        jobId: crypto.randomUUID(),
+        type,
+        args,
+        status: 'pending',
+        createdAt: now,
+        updatedAt: now,
+        attempts: 0,
+        maxAttempts: enqueueOptions.maxAttempts ?? settings.maxAttempts,
+      });
+    },
+
+    getJob: read,
+
+    async claimNextJob(workerId, claimOptions = {}) {
+      const now = Date.now();
+      const candidates: JobQueue[] = [];
+
+      let cursor: string | undefined;
+      do {
+        const page = await kv.list({ prefix: settings.prefix, cursor });
+        for (const key of page.keys) {
+          let job = await read(key.name.slice(settings.prefix.length));
+          if (job && isLeaseExpired(job, now)) {
+            job = await retryOrFail(job, 'Lease expired', now);
+          }
+          if (job && isClaimable(job, now, claimOptions.types)) {
+            candidates.push(job);
+          }
+        }
+        cursor = page.list_complete ? undefined : page.cursor;
+      } while (cursor);
+
+      candidates.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+      for (const candidate of candidates) {
+        const leaseSeconds = claimOptions.leaseSeconds ?? settings.leaseSeconds;
+        const claimed = await write({
+          ...candidate,
+          status: 'running',
+          claimedBy: workerId,
+          attempts: (candidate.attempts ?? 0) + 1,
+          leaseExpiresAt: new Date(now + leaseSeconds * 1000).toISOString(),
+          updatedAt: new Date(now).toISOString(),
+        });
+
+        const check = await read(claimed.jobId);
+        if (check?.claimedBy === workerId && check.attempts === claimed.attempts) {
+          return claimed;
+        }
+      }
+
+      return null;
+    },
+
+    async updateJobProgress(jobId, workerId, progress) {
+      const job = await leased(jobId, workerId);
+      const now = Date.now();
+      const leaseSeconds = job.leaseExpiresAt
+        ? Math.max(settings.leaseSeconds, Math.ceil((new Date(job.leaseExpiresAt).getTime() - now) / 1000))
+        : settings.leaseSeconds;
+
+      // Progress doubles as a heartbeat that extends the lease
+      return write({
+        ...job,
+        progress: { ...progress, updatedAt: new Date(now).toISOString() },
+        leaseExpiresAt: new Date(now + leaseSeconds * 1000).toISOString(),
+        updatedAt: new Date(now).toISOString(),
+      });
+    },
+
+    async completeJob(jobId, workerId, result) {
+      const job = await leased(jobId, workerId);
+      const now = new Date().toISOString();
+
+      return write({
+        ...job,
+        status: 'completed',
+        result,
+        error: undefined,
+        leaseExpiresAt: undefined,
+        completedAt: now,
+        updatedAt: now,
+      });
+    },
+
+    async failJob(jobId, workerId, error) {
+      const job = await leased(jobId, workerId);
+      return retryOrFail(job, error, Date.now());
+    },
+  };
+}
+
+/**
+ * Create a job store that lives in process memory
+ */
+export function createMemoryJobStore(options: JobStoreOptions = {}): JobStore {
+  return createJobStore(createMemoryKV(), options);
+}
@@ -0,0 +1,70 @@
+/**
+ * ChittyOS Agent KV
+ *
+ * The subset of the Cloudflare KVNamespace API that agent stores rely on,
+ * plus an in-memory implementation for local development and tests.
+ */
+
+export interface KVLike {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(options?: { prefix?: string; cursor?: string; limit?: number }): Promise<{
+    keys: { name: string; expiration?: number }[];
+    list_complete: boolean;
+    cursor?: string;
+  }>;
+}
+
+/**
+ * Create an in-memory KV namespace. Entries honor `expirationTtl`.
+ */
+export function createMemoryKV(): KVLike {
+  const entries = new Map<string, { value: string; expiresAt?: number }>();
+
+  const live = (key: string) => {
+    const entry = entries.get(key);
+    if (entry?.expiresAt && entry.expiresAt <= Date.now()) {
+      entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  return {
+    async get(key) {
+      return live(key)?.value ?? null;
+    },
+
+    async put(key, value, options) {
+      entries.set(key, {
+        value,
+        expiresAt: options?.expirationTtl ? Date.now() + options.expirationTtl * 1000 : undefined,
+      });
+    },
+
+    async delete(key) {
+      entries.delete(key);
+    },
+
+    async list(options = {}) {
+      const names = Array.from(entries.keys())
+        .filter(name => !options.prefix || name.startsWith(options.prefix))
+        .filter(name => live(name))
+        .sort();
+
+      const start = options.cursor ? parseInt(options.cursor, 10) : 0;
+      const end = options.limit ? start + options.limit : names.length;
+      const page = names.slice(start, end);
+
+      return {
+        keys: page.map(name => {
+          const expiresAt = entries.get(name)?.expiresAt;
+          return { name, expiration: expiresAt ? Math.floor(expiresAt / 1000) : undefined };
+        }),
+        list_complete: end >= names.length,
+        cursor: end >= names.length ? undefined : String(end),
+      };
+    },
+  };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { getManifestJsonSchema, validateManifest } from './manifest';
+import { createAgentManifest } from './templates';
+import { BaseAgent } from './base-agent';
+import { createAgentHarness } from './testing';
+import type { AgentConfig } from './types';
+
+class ManifestAgent extends BaseAgent {}
+
+const config: AgentConfig = {
+  name: 'cleanup-agent',
+  version: '1.2.0-beta.1',
+  description: 'Finds and removes clutter',
+  model: '@cf/meta/llama-3.1-8b-instruct',
+  fallbackModel: 'openai:gpt-4o-mini',
+  systemPrompt: 'Test',
+  toolCategories: [{ name: 'files', description: 'File tools', tools: [] }],
+  manifest: {
+    tier: 3,
+    category: 'application',
+    maintainer: 'ChittyOS',
+    repository: 'https://github.com/chittyos/cleanup-agent',
+  },
+};
+
+describe('validateManifest', () => {
+  it('accepts a manifest generated from an agent config', () => {
+    const manifest = createAgentManifest(config, config.manifest!);
+
+    expect(validateManifest(manifest)).toEqual({ valid: true, manifest });
+  });
+
+  it('reports every invalid field with its path', () => {
+    const manifest = {
+      ...createAgentManifest(config, config.manifest!),
+      name: 'Cleanup Agent',
+      version: '1.2',
+      tier: 9,
+      endpoints: { chat: 'chat', health: '/health' },
+    };
+
+    const result = validateManifest(manifest);
+
+    expect(result.valid).toBe(false);
+    if (result.valid) return;
+    expect(result.issues.map(issue => issue.path)).toEqual(['name', 'version', 'tier', 'endpoints.chat']);
+  });
+});
+
+describe('getManifestJsonSchema', () => {
+  it('lists the required manifest fields', () => {
+    expect(getManifestJsonSchema()).toMatchObject({
+      type: 'object',
+      required: expect.arrayContaining(['name', 'version', 'tier', 'model', 'endpoints']),
+    });
+  });
+});
+
+describe('/manifest', () => {
+  it('serves the manifest without authentication', async () => {
+    const harness = createAgentHarness(new ManifestAgent(config));
+
+    const response = await harness.request({ path: '/manifest', handlerOptions: { requireAuth: true } });
+
+    expect(response.status).toBe(200);
+    expect(validateManifest(response.body).valid).toBe(true);
+  });
+
+  it('returns 404 when the agent has no manifest options', async () => {
+    const harness = createAgentHarness(new ManifestAgent({ ...config, manifest: undefined }));
+
+    expect((await harness.request({ path: '/manifest' })).status).toBe(404);
+  });
+});
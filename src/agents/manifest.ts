@@ -0,0 +1,84 @@
+/**
+ * ChittyOS Agent Manifest Schema
+ *
+ * The canonical shape of `AgentManifest`, used by the registry to check
+ * submissions and by deployed agents to describe themselves at `/manifest`.
+ *
+ * Usage:
+ *   const result = validateManifest(await (await fetch(`${url}/manifest`)).json());
+ *   if (!result.valid) console.error(result.issues);
+ */
+
+import { z } from 'zod';
+import type { AgentManifest } from './types';
+
+export const MIN_AGENT_TIER = 0;
+export const MAX_AGENT_TIER = 5;
+
+// Semantic Versioning 2.0.0, including pre-release and build metadata
+const SEMVER_PATTERN =
+  /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/;
+
+const endpointPath = z
+  .string()
+  .regex(/^\/[A-Za-z0-9\-._~/]*$/, 'Endpoint must be an absolute path such as /chat');
+
+export const agentManifestSchema = z.object({
+  name: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'Name must be lowercase letters, digits and dashes'),
+  version: z.string().regex(SEMVER_PATTERN, 'Version must be a semantic version such as 1.2.0'),
+  description: z.string().min(1),
+  tier: z.number().int().min(MIN_AGENT_TIER).max(MAX_AGENT_TIER),
+  category: z.enum(['foundation', 'core', 'platform', 'domain', 'application']),
+  domain: z.string().min(1).optional(),
+  status: z.enum(['active', 'beta', 'deprecated']),
+  toolCategories: z.array(z.object({
+    name: z.string().min(1),
+    description: z.string(),
+    toolCount: z.number().int().min(0),
+  })),
+  model: z.object({
+    provider: z.enum(['workers-ai', 'chittyserv', 'openai', 'anthropic']),
+    name: z.string().min(1),
+    fallback: z.string().min(1).optional(),
+  }),
+  endpoints: z.object({
+    chat: endpointPath,
+    health: endpointPath,
+    tools: endpointPath.optional(),
+  }),
+  maintainer: z.string().min(1),
+  repository: z.url(),
+});
+
+export type ManifestValidation =
+  | { valid: true; manifest: AgentManifest }
+  | { valid: false; issues: { path: string; message: string }[] };
+
+/**
+ * Validate a manifest against the canonical schema
+ */
+export function validateManifest(manifest: unknown): ManifestValidation {
+  const result = agentManifestSchema.safeParse(manifest);
+
+  if (result.success) {
+    return { valid: true, manifest: result.data satisfies AgentManifest };
+  }
+
+  return {
+    valid: false,
+    issues: result.error.issues.map(issue => ({
+      path: issue.path.join('.') || '(root)',
+      message: issue.message,
+    })),
+  };
+}
+
+/**
+ * The manifest schema as JSON Schema, for registries outside TypeScript
+ */
+export function getManifestJsonSchema(): Record<string, unknown> {
+  return {
+    ...z.toJSONSchema(agentManifestSchema),
+    title: 'ChittyOS Agent Manifest',
+  };
+}
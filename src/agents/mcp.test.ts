@@ -0,0 +1,134 @@
+import { PassThrough } from 'stream';
+import { describe, expect, it } from 'vitest';
+import { BaseAgent } from './base-agent';
+import { createMcpServer, MCP_PROTOCOL_VERSION, serveMcpStdio } from './mcp';
+import { createConfirmableTool, createTool } from './tool-builder';
+import { createAgentHarness } from './testing';
+import { createMemoryKV } from './kv';
+import type { AgentContext } from './types';
+
+class McpAgent extends BaseAgent {}
+
+const agent = new McpAgent({
+  name: 'files-agent',
+  version: '2.1.0',
+  description: 'Manages files',
+  model: 'test-model',
+  systemPrompt: 'Test',
+  toolCategories: [{
+    name: 'files',
+    description: 'File tools',
+    tools: [
+      createTool({
+        name: 'stat',
+        description: 'Stat a file',
+        category: 'files',
+        parameters: { path: { type: 'string', description: 'Path', required: true } },
+        execute: async args => ({ path: args.path, size: 42 }),
+      }),
+      createConfirmableTool({
+        name: 'remove',
+        description: 'Remove a file',
+        category: 'files',
+        parameters: { path: { type: 'string', description: 'Path', required: true } },
+        execute: async args => ({ removed: args.path }),
+      }),
+    ],
+  }],
+});
+
+const rpc = (id: number, method: string, params?: Record<string, any>) => ({ jsonrpc: '2.0', id, method, params });
+
+describe('createMcpServer', () => {
+  it('answers initialize with the supported protocol version', async () => {
+    const response = await createMcpServer(agent).handle(
+      rpc(1, 'initialize', { protocolVersion: '1999-01-01' }),
+      { env: {} }
+    );
+
+    expect(response?.result).toMatchObject({
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      serverInfo: { name: 'files-agent', version: '2.1.0' },
+    });
+  });
+
+  it('lists tools and hides confirmable ones when asked', async () => {
+    const all = await createMcpServer(agent).handle(rpc(1, 'tools/list'), { env: {} });
+    const safe = await createMcpServer(agent, { includeConfirmable: false }).handle(rpc(1, 'tools/list'), { env: {} });
+
+    expect(all?.result.tools.map((tool: any) => tool.name)).toEqual(['stat', 'remove']);
+    expect(safe?.result.tools.map((tool: any) => tool.name)).toEqual(['stat']);
+  });
+
+  it('calls tools and reports invalid arguments as tool errors', async () => {
+    const server = createMcpServer(agent);
+
+    const ok = await server.handle(rpc(1, 'tools/call', { name: 'stat', arguments: { path: '/a' } }), { env: {} });
+    const invalid = await server.handle(rpc(2, 'tools/call', { name: 'stat', arguments: {} }), { env: {} });
+
+    expect(ok?.result).toMatchObject({ structuredContent: { path: '/a', size: 42 }, isError: false });
+    expect(invalid?.result).toMatchObject({ isError: true, content: [{ text: expect.stringContaining('path:') }] });
+  });
+
+  it('confirms and rejects held calls over JSON-RPC', async () => {
+    const server = createMcpServer(agent);
+    const context: AgentContext = { env: {}, kv: createMemoryKV() };
+    const hold = async (id: number) => (await server.handle(
+      rpc(id, 'tools/call', { name: 'remove', arguments: { path: `/${id}` } }),
+      context
+    ))?.result;
+
+    const held = await hold(1);
+    expect(held.content[0].text).toContain('confirmations/confirm');
+    const confirmed = await server.handle(rpc(2, 'confirmations/confirm', { token: held.structuredContent.token }), context);
+    expect(confirmed?.result).toMatchObject({ confirmed: true, result: { removed: '/1' } });
+
+    const rejected = await server.handle(rpc(3, 'confirmations/reject', { token: (await hold(4)).structuredContent.token }), context);
+    expect(rejected?.result).toMatchObject({ rejected: true, args: { path: '/4' } });
+
+    const reused = await server.handle(rpc(5, 'confirmations/confirm', { token: held.structuredContent.token }), context);
+    expect(reused?.error).toEqual({ code: -32602, message: 'Invalid or expired confirmation token' });
+  });
+
+  it('does not offer confirmation methods without confirmable tools', async () => {
+    const response = await createMcpServer(agent, { includeConfirmable: false }).handle(
+      rpc(1, 'confirmations/confirm', { token: 'abc' }),
+      { env: {} }
+    );
+
+    expect(response?.error?.code).toBe(-32601);
+  });
+
+  it('ignores notifications', async () => {
+    expect(await createMcpServer(agent).handle({ jsonrpc: '2.0', method: 'notifications/initialized' }, { env: {} }))
+      .toBeUndefined();
+  });
+});
+
+describe('serveMcpStdio', () => {
+  it('approves a held call on the same stdio session', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const lines: any[] = [];
+    output.on('data', chunk => lines.push(...String(chunk).split('\n').filter(Boolean).map(line => JSON.parse(line))));
+
+    const serving = serveMcpStdio(agent, { input, output });
+    input.write(`${JSON.stringify(rpc(1, 'tools/call', { name: 'remove', arguments: { path: '/x' } }))}\n`);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    const token = lines[0].result.structuredContent.token;
+    input.end(`${JSON.stringify(rpc(2, 'confirmations/confirm', { token }))}\n`);
+    await serving;
+
+    expect(lines[1].result).toMatchObject({ confirmed: true, result: { removed: '/x' } });
+  });
+});
+
+describe('/mcp', () => {
+  it('serves JSON-RPC over HTTP', async () => {
+    const harness = createAgentHarness(agent);
+
+    const response = await harness.request({ path: '/mcp', body: rpc(1, 'ping') });
+
+    expect(response.body).toEqual({ jsonrpc: '2.0', id: 1, result: {} });
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * ChittyOS Agent MCP Server
+ *
+ * Exposes an agent's tools as a Model Context Protocol server: JSON-RPC
+ * `initialize`, `tools/list` and `tools/call`, over stdio (newline-delimited
+ * JSON) or HTTP (`POST /mcp` on createFetchHandler). Calls go through
+ * `executeTool`, so validation, authorization and confirmation all apply;
+ * a confirmable tool returns its confirmation token instead of running.
+ * The client approves or discards it with the `confirmations/confirm` and
+ * `confirmations/reject` methods, which work on both transports.
+ *
+ * Usage:
+ *   // bin/mcp.ts
+ *   await serveMcpStdio(new MyAgent(), { context: { env: process.env } });
+ */
+
+import type { BaseAgent } from './base-agent';
+import type { AgentContext } from './types';
+import { createMemoryKV } from './kv';
+
+export const MCP_PROTOCOL_VERSION = '2025-06-18';
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method: string;
+  params?: Record<string, any>;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  result?: any;
+  error?: { code: number; message: string; data?: any };
+}
+
+export interface McpServer {
+  /** Handle one JSON-RPC message; notifications resolve to undefined */
+  handle(message: unknown, context: AgentContext): Promise<JsonRpcResponse | undefined>;
+}
+
+export interface McpServerOptions {
+  /** List and accept confirmable tools and the confirmation methods (default: true) */
+  includeConfirmable?: boolean;
+}
+
+const JSON_RPC_ERRORS = {
+  parseError: -32700,
+  invalidRequest: -32600,
+  methodNotFound: -32601,
+  invalidParams: -32602,
+  internalError: -32603,
+};
+
+/**
+ * Create a JSON-RPC dispatcher for an agent's tools
+ */
+export function createMcpServer(agent: BaseAgent, options: McpServerOptions = {}): McpServer {
+  const includeConfirmable = options.includeConfirmable ?? true;
+
+  const listTools = () =>
+    agent.getMcpToolDefinitions().filter(tool => includeConfirmable || !tool.annotations?.destructiveHint);
+
+  const callTool = async (params: Record<string, any>, context: AgentContext) => {
+    if (!listTools().some(tool => tool.name === params.name)) {
+      throw new McpError(JSON_RPC_ERRORS.invalidParams, `Unknown tool: ${params.name}`);
+    }
+
+    const result = await agent.executeTool(params.name, params.arguments ?? {}, context);
+
+    if (result?.requiresConfirmation) {
+      return {
+        content: [{
+          type: 'text',
+          text: result.token
+            ? `${result.message}. Approve with the confirmations/confirm request ` +
+              `{"token":"${result.token}"} before ${result.expiresAt}, or confirmations/reject to discard.`
+            : `${result.message}. No confirmation store is configured, so it cannot be approved.`,
+        }],
+        structuredContent: result,
+      };
+    }
+
+    const failed = result?.success === false || (result?.error !== undefined && result?.success === undefined);
+    return {
+      content: [{
+        type: 'text',
+        text: failed ? describeFailure(result) : JSON.stringify(result ?? null),
+      }],
+      ...(result && typeof result === 'object' && !Array.isArray(result) && { structuredContent: result }),
+      isError: failed,
+    };
+  };
+
+  const resolveConfirmation = async (
+    method: string,
+    params: Record<string, any> | undefined,
+    context: AgentContext
+  ) => {
+    if (!includeConfirmable) {
+      throw new McpError(JSON_RPC_ERRORS.methodNotFound, `Method not found: ${method}`);
+    }
+    if (typeof params?.token !== 'string') {
+      throw new McpError(JSON_RPC_ERRORS.invalidParams, 'params.token required');
+    }
+
+    const result = method === 'confirmations/confirm'
+      ? await agent.confirmTool(params.token, context)
+      : await agent.rejectTool(params.token, context);
+    if (result.error) {
+      throw new McpError(JSON_RPC_ERRORS.invalidParams, result.error);
+    }
+    return result;
+  };
+
+  return {
+    async handle(message, context) {
+      const request = message as JsonRpcRequest;
+      if (!request || typeof request !== 'object' || request.jsonrpc !== '2.0' || typeof request.method !== 'string') {
+        return rpcError(null, JSON_RPC_ERRORS.invalidRequest, 'Invalid JSON-RPC request');
+      }
+
+      // Notifications (no id) never get a response
+      const isNotification = request.id === undefined;
+      const id = request.id ?? null;
+
+      try {
+        let result: any;
+        switch (request.method) {
+          case 'initialize': {
+            // Always answer with the version we speak; a client that cannot
+            // use it is expected to disconnect
+            const info = agent.getInfo();
+            result = {
+              protocolVersion: MCP_PROTOCOL_VERSION,
+              capabilities: {
+                tools: { listChanged: false },
+                ...(includeConfirmable && { experimental: { confirmations: {} } }),
+              },
+              serverInfo: { name: info.agent, version: info.version },
+              instructions: info.description,
+            };
+            break;
+          }
+          case 'ping':
+            result = {};
+            break;
+          case 'tools/list':
+            result = { tools: listTools() };
+            break;
+          case 'tools/call':
+            if (typeof request.params?.name !== 'string') {
+              throw new McpError(JSON_RPC_ERRORS.invalidParams, 'params.name required');
+            }
+            result = await callTool(request.params, context);
+            break;
+          case 'confirmations/confirm':
+          case 'confirmations/reject':
+            result = await resolveConfirmation(request.method, request.params, context);
+            break;
+          default:
+            if (request.method.startsWith('notifications/')) {
+              return undefined;
+            }
+            throw new McpError(JSON_RPC_ERRORS.methodNotFound, `Method not found: ${request.method}`);
+        }
+        return isNotification ? undefined : { jsonrpc: '2.0', id, result };
+      } catch (error) {
+        if (isNotification) return undefined;
+        if (error instanceof McpError) {
+          return rpcError(id, error.code, error.message);
+        }
+        return rpcError(id, JSON_RPC_ERRORS.internalError, error instanceof Error ? error.message : 'Unknown error');
+      }
+    },
+  };
+}
+
+/**
+ * Serve MCP over HTTP: one JSON-RPC message per POST, answered as JSON
+ */
+export async function handleMcpHttpRequest(
+  server: McpServer,
+  request: Request,
+  context: AgentContext,
+  headers: Record<string, string> = {}
+): Promise<Response> {
+  if (request.method !== 'POST') {
+    return new Response(null, { status: 405, headers: { ...headers, Allow: 'POST' } });
+  }
+
+  let message: unknown;
+  try {
+    message = await request.json();
+  } catch {
+    return Response.json(rpcError(null, JSON_RPC_ERRORS.parseError, 'Parse error'), { status: 400, headers });
+  }
+
+  const response = await server.handle(message, context);
+  return response
+    ? Response.json(response, { headers })
+    : new Response(null, { status: 202, headers });
+}
+
+/**
+ * Serve MCP over stdio until the input closes. Only JSON-RPC goes to the
+ * output stream; use console.error for logging.
+ */
+export async function serveMcpStdio(
+  agent: BaseAgent,
+  options: McpServerOptions & {
+    context?: AgentContext;
+    input?: NodeJS.ReadableStream;
+    output?: NodeJS.WritableStream;
+  } = {}
+): Promise<void> {
+  const { createInterface } = await import('readline');
+  const server = createMcpServer(agent, options);
+  const context = options.context ?? { env: {}, kv: createMemoryKV() };
+  const output = options.output ?? process.stdout;
+  const lines = createInterface({ input: options.input ?? process.stdin, crlfDelay: Infinity });
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+
+    let response: JsonRpcResponse | undefined;
+    try {
+      response = await server.handle(JSON.parse(line), context);
+    } catch {
+      response = rpcError(null, JSON_RPC_ERRORS.parseError, 'Parse error');
+    }
+
+    if (response) {
+      output.write(`${JSON.stringify(response)}\n`);
+    }
+  }
+}
+
+class McpError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+  }
+}
+
+function describeFailure(result: any): string {
+  const issues = Array.isArray(result.issues)
+    ? result.issues.map((issue: { path: string; message: string }) => `${issue.path}: ${issue.message}`)
+    : [];
+  return issues.length ? `${result.error} (${issues.join('; ')})` : String(result.error);
+}
+
+function rpcError(id: JsonRpcResponse['id'], code: number, message: string): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: { code, message } };
+}
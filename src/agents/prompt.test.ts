@@ -0,0 +1,83 @@
+import { describe, expect, it, vi } from 'vitest';
+import { buildBudgetedSystemPrompt, compactHistory, rankToolCategories } from './prompt';
+import { estimateTokens } from './history';
+import type { ChatMessage, ToolCategory } from './types';
+
+const category = (name: string, description: string, toolNames: string[]): ToolCategory => ({
+  name,
+  description,
+  tools: toolNames.map(tool => ({ name: tool, description: `${tool} tool`, category: name, parameters: {} })),
+});
+
+const disk = category('disk', 'Disk usage and large files', ['scan_disk', 'find_large_files']);
+const network = category('network', 'Network diagnostics', ['ping_host']);
+
+describe('rankToolCategories', () => {
+  it('puts categories matching the message first', () => {
+    expect(rankToolCategories([network, disk], 'Why is my disk full of large files?')).toEqual([disk, network]);
+  });
+});
+
+describe('buildBudgetedSystemPrompt', () => {
+  it('includes every category when the budget allows', () => {
+    const result = buildBudgetedSystemPrompt('Base prompt', [disk, network], { maxTokens: 1000 });
+
+    expect(result.categories).toEqual([disk, network]);
+    expect(result.prompt).toContain('- scan_disk: scan_disk tool');
+    expect(result.tokens).toBe(estimateTokens(result.prompt));
+  });
+
+  it('falls back to brief listings, then drops categories', () => {
+    const full = buildBudgetedSystemPrompt('Base', [disk], { maxTokens: 1000 }).tokens;
+
+    const brief = buildBudgetedSystemPrompt('Base', [disk, network], { maxTokens: full - 1 });
+    expect(brief.prompt).toContain('scan_disk, find_large_files');
+    expect(brief.categories).toEqual([disk]);
+  });
+
+  it('charges tool schemas against the same budget', () => {
+    const schemaTokens = (c: ToolCategory) => (c === disk ? 500 : 10);
+
+    const result = buildBudgetedSystemPrompt('Base', [disk, network], { maxTokens: 100, schemaTokens });
+
+    expect(result.categories).toEqual([network]);
+    expect(result.schemaTokens).toBe(10);
+    expect(result.tokens + result.schemaTokens).toBeLessThanOrEqual(100);
+  });
+});
+
+describe('compactHistory', () => {
+  const history: ChatMessage[] = Array.from({ length: 10 }, (_, index) => ({
+    role: index % 2 ? 'assistant' : 'user',
+    content: `message ${index} `.repeat(10),
+  }));
+
+  it('leaves history that fits untouched', async () => {
+    expect(await compactHistory(history, { maxTokens: 10_000 })).toEqual({
+      messages: history,
+      compacted: 0,
+      summarized: false,
+    });
+  });
+
+  it('replaces older messages with a summary', async () => {
+    const result = await compactHistory(history, { maxTokens: 120, summarize: async () => 'They said hello.' });
+
+    expect(result.summarized).toBe(true);
+    expect(result.messages[0]).toEqual({ role: 'system', content: 'Summary of the earlier conversation:\nThey said hello.' });
+    expect(result.messages.at(-1)).toBe(history.at(-1));
+  });
+
+  it('drops older messages when summarizing fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const result = await compactHistory(history, {
+      maxTokens: 120,
+      summarize: async () => {
+        throw new Error('model down');
+      },
+    });
+
+    expect(result.summarized).toBe(false);
+    expect(result.compacted).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * ChittyOS Agent Prompt Budgeting
+ *
+ * Fits the system prompt and conversation history into a token budget for
+ * small-context models. Tool categories are ranked by relevance to the user
+ * message and included until the budget runs out; older history is
+ * summarized (or dropped) once the transcript no longer fits.
+ *
+ * Usage:
+ *   const { prompt, categories } = buildBudgetedSystemPrompt(basePrompt, toolCategories, {
+ *     maxTokens: 1500,
+ *     message: 'Why is my disk full?',
+ *   });
+ */
+
+import type { ChatMessage, ToolCategory } from './types';
+import { estimateMessageTokens, estimateTokens, trimHistory } from './history';
+
+export interface BudgetedPrompt {
+  prompt: string;
+  /** Categories whose tools are described in the prompt */
+  categories: ToolCategory[];
+  tokens: number;
+  /** Tokens spent on the included categories' tool schemas */
+  schemaTokens: number;
+}
+
+export interface CompactedHistory {
+  messages: ChatMessage[];
+  /** Number of older messages replaced by the summary or dropped */
+  compacted: number;
+  summarized: boolean;
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'can', 'do', 'for', 'from', 'how', 'i', 'in', 'is', 'it',
+  'me', 'my', 'of', 'on', 'or', 'please', 'the', 'this', 'to', 'what', 'why', 'with', 'you',
+]);
+
+/**
+ * Rank tool categories by keyword overlap with the user message.
+ * Categories that share no keywords score 0 but are kept, last, in
+ * their original order.
+ */
+export function rankToolCategories(categories: ToolCategory[], message: string): ToolCategory[] {
+  const keywords = new Set(tokenize(message));
+
+  const scored = categories.map((category, index) => {
+    const text = [
+      category.name,
+      category.description,
+      ...category.tools.flatMap(tool => [tool.name, tool.description]),
+    ].join(' ');
+    const score = tokenize(text).filter(word => keywords.has(word)).length;
+    return { category, index, score };
+  });
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ category }) => category);
+}
+
+/**
+ * Describe a tool category for the system prompt. `brief` lists tool names only.
+ */
+export function describeToolCategory(category: ToolCategory, brief = false): string {
+  const header = `**${category.name.toUpperCase()} Tools** - ${category.description}`;
+  if (brief) {
+    return `${header}: ${category.tools.map(t => t.name).join(', ')}`;
+  }
+  const toolList = category.tools.map(t => `- ${t.name}: ${t.description}`).join('\n');
+  return `${header}:\n${toolList}`;
+}
+
+/**
+ * Assemble a system prompt that stays within `maxTokens`. Categories are
+ * added in order of relevance to `message`; one that does not fit in full
+ * is listed by tool name only, and skipped if even that does not fit.
+ * `schemaTokens` prices the tool schemas sent alongside each included
+ * category, which count against the same budget.
+ */
+export function buildBudgetedSystemPrompt(
+  basePrompt: string,
+  categories: ToolCategory[],
+  options: {
+    maxTokens: number;
+    message?: string;
+    schemaTokens?: (category: ToolCategory) => number;
+  }
+): BudgetedPrompt {
+  const ranked = options.message ? rankToolCategories(categories, options.message) : categories;
+  const header = `${basePrompt}\n\nAvailable Tools:\n`;
+
+  let tokens = estimateTokens(header);
+  let schemaTokens = 0;
+  const blocks: string[] = [];
+  const included: ToolCategory[] = [];
+
+  for (const category of ranked) {
+    const schemaCost = options.schemaTokens?.(category) ?? 0;
+    for (const brief of [false, true]) {
+      const block = describeToolCategory(category, brief);
+      const cost = estimateTokens(`${block}\n\n`);
+      if (tokens + schemaTokens + cost + schemaCost <= options.maxTokens) {
+        blocks.push(block);
+        included.push(category);
+        tokens += cost;
+        schemaTokens += schemaCost;
+        break;
+      }
+    }
+  }
+
+  if (!blocks.length) {
+    return { prompt: basePrompt, categories: [], tokens: estimateTokens(basePrompt), schemaTokens: 0 };
+  }
+
+  const prompt = `${header}${blocks.join('\n\n')}`;
+  return { prompt, categories: included, tokens: estimateTokens(prompt), schemaTokens };
+}
+
+/**
+ * Fit history into `maxTokens`. The newest messages are kept; the older
+ * ones are replaced by a system message from `summarize`, or dropped when
+ * no summarizer is given or it fails.
+ */
+export async function compactHistory(
+  messages: ChatMessage[],
+  options: {
+    maxTokens: number;
+    summarize?: (messages: ChatMessage[]) => Promise<string>;
+    /** Tokens held back for the summary message (default: 1/4 of the budget) */
+    summaryTokens?: number;
+  }
+): Promise<CompactedHistory> {
+  const total = messages.reduce((sum, m) => sum + estimateMessageTokens(m), 0);
+  if (total <= options.maxTokens) {
+    return { messages, compacted: 0, summarized: false };
+  }
+
+  const summaryTokens = options.summarize
+    ? options.summaryTokens ?? Math.floor(options.maxTokens / 4)
+    : 0;
+  const kept = trimHistory(messages, { maxTokens: options.maxTokens - summaryTokens });
+  const older = messages.slice(0, messages.length - kept.length);
+
+  if (options.summarize && older.length) {
+    try {
+      const summary = await options.summarize(older);
+      // Keep within the reserve (~4 characters per token, minus message overhead)
+      const content = `Summary of the earlier conversation:\n${summary}`.slice(0, Math.max(0, summaryTokens - 4) * 4);
+      return {
+        messages: [{ role: 'system', content }, ...kept],
+        compacted: older.length,
+        summarized: true,
+      };
+    } catch (error) {
+      console.error('[Agent] History summary failed, dropping older messages:', error);
+    }
+  }
+
+  return { messages: kept, compacted: older.length, summarized: false };
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    .map(word => (word.length > 3 ? word.replace(/s$/, '') : word));
+}
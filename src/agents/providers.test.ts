@@ -0,0 +1,128 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  createAnthropicProvider,
+  createModelProvider,
+  createOpenAIProvider,
+  createWorkersAIProvider,
+  parseModelRef,
+  withFallback,
+} from './providers';
+import type { ModelProvider, ModelRequest } from './types';
+
+const request: ModelRequest = {
+  model: 'test-model',
+  messages: [
+    { role: 'system', content: 'Be brief.' },
+    { role: 'user', content: 'Weather?' },
+    { role: 'assistant', content: '', toolCalls: [{ id: 'c1', name: 'weather', arguments: { city: 'Paris' } }] },
+    { role: 'tool', content: '{"temp":21}', toolCallId: 'c1' },
+  ],
+  tools: [{
+    type: 'function',
+    function: {
+      name: 'weather',
+      description: 'Current weather',
+      parameters: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+    },
+  }],
+};
+
+function mockFetch(body: unknown) {
+  const fetch = vi.fn(async (_url: string, _init: RequestInit) => new Response(JSON.stringify(body)));
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createWorkersAIProvider', () => {
+  it('runs the model on the AI binding and parses flat tool calls', async () => {
+    const run = vi.fn(async () => ({ response: '', tool_calls: [{ name: 'weather', arguments: { city: 'Oslo' } }] }));
+
+    const response = await createWorkersAIProvider().chat(request, { env: {}, ai: { run } });
+
+    expect(run).toHaveBeenCalledWith('test-model', expect.objectContaining({ tools: request.tools }));
+    expect(response.toolCalls).toEqual([{ id: expect.any(String), name: 'weather', arguments: { city: 'Oslo' } }]);
+  });
+
+  it('requires the AI binding', async () => {
+    await expect(createWorkersAIProvider().chat(request, { env: {} })).rejects.toThrow('Workers AI binding');
+  });
+});
+
+describe('createOpenAIProvider', () => {
+  it('sends OpenAI messages and parses JSON tool arguments', async () => {
+    const fetch = mockFetch({
+      choices: [{
+        message: {
+          content: null,
+          tool_calls: [{ id: 'c2', function: { name: 'weather', arguments: '{"city":"Rome"}' } }],
+        },
+      }],
+    });
+
+    const response = await createOpenAIProvider({ apiKey: 'sk-test' }).chat(request, { env: {} });
+
+    const [url, init] = fetch.mock.calls[0];
+    const sent = JSON.parse(init.body as string);
+    expect(url).toBe('https://api.openai.com/v1/chat/completions');
+    expect((init.headers as Record<string, string>).Authorization).toBe('Bearer sk-test');
+    expect(sent.messages[2].tool_calls[0].function).toEqual({ name: 'weather', arguments: '{"city":"Paris"}' });
+    expect(sent.messages[3]).toEqual({ role: 'tool', content: '{"temp":21}', tool_call_id: 'c1' });
+    expect(response).toEqual({ content: '', toolCalls: [{ id: 'c2', name: 'weather', arguments: { city: 'Rome' } }] });
+  });
+});
+
+describe('createAnthropicProvider', () => {
+  it('lifts the system prompt and sends tool results as user blocks', async () => {
+    const fetch = mockFetch({
+      content: [
+        { type: 'text', text: 'Checking' },
+        { type: 'tool_use', id: 'tu1', name: 'weather', input: { city: 'Lima' } },
+      ],
+    });
+
+    const response = await createAnthropicProvider({ apiKey: 'key' }).chat(request, { env: {} });
+
+    const sent = JSON.parse(fetch.mock.calls[0][1].body as string);
+    expect(sent.system).toBe('Be brief.');
+    expect(sent.tools[0]).toMatchObject({ name: 'weather', input_schema: request.tools[0].function.parameters });
+    expect(sent.messages.at(-1)).toEqual({
+      role: 'user',
+      content: [{ type: 'tool_result', tool_use_id: 'c1', content: '{"temp":21}' }],
+    });
+    expect(response).toEqual({
+      content: 'Checking',
+      toolCalls: [{ id: 'tu1', name: 'weather', arguments: { city: 'Lima' } }],
+    });
+  });
+});
+
+describe('createModelProvider', () => {
+  it('creates an adapter for each manifest provider name', () => {
+    expect(createModelProvider('workers-ai').name).toBe('workers-ai');
+    expect(createModelProvider('chittyserv').name).toBe('chittyserv');
+    expect(createModelProvider('anthropic').name).toBe('anthropic');
+  });
+});
+
+describe('parseModelRef', () => {
+  it('switches provider only for known prefixes', () => {
+    expect(parseModelRef('openai:gpt-4o-mini', 'workers-ai')).toEqual({ provider: 'openai', model: 'gpt-4o-mini' });
+    expect(parseModelRef('@cf/meta/llama', 'workers-ai')).toEqual({ provider: 'workers-ai', model: '@cf/meta/llama' });
+  });
+});
+
+describe('withFallback', () => {
+  it('retries a failed call against the fallback model', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const primary: ModelProvider = { name: 'primary', chat: async () => { throw new Error('down'); } };
+    const fallback: ModelProvider = { name: 'fallback', chat: async req => ({ content: `answered by ${req.model}` }) };
+
+    const response = await withFallback(primary, fallback, 'small-model').chat(request, { env: {} });
+
+    expect(response.content).toBe('answered by small-model');
+  });
+});
@@ -0,0 +1,499 @@
+/**
+ * ChittyOS Model Providers
+ *
+ * Adapters that translate agent transcripts and tool definitions into each
+ * provider's request format and parse tool calls back into `ToolCall[]`.
+ *
+ * Usage:
+ *   const provider = createModelProvider('openai', { apiKey: env.OPENAI_API_KEY });
+ *   class MyAgent extends BaseAgent {
+ *     constructor() {
+ *       super(myAgentConfig, { modelProvider: provider });
+ *     }
+ *   }
+ */
+
+import type {
+  AgentContext,
+  ChatMessage,
+  ModelProvider,
+  ModelProviderName,
+  ModelRequest,
+  ModelResponse,
+  ModelStreamChunk,
+  ToolCall,
+} from './types';
+
+export interface ModelProviderOptions {
+  apiKey?: string;
+  baseUrl?: string;
+  maxTokens?: number;
+}
+
+const MODEL_PROVIDER_NAMES: ModelProviderName[] = ['workers-ai', 'chittyserv', 'openai', 'anthropic'];
+
+// ============ Workers AI ============
+
+/**
+ * Cloudflare Workers AI via the `AI` binding on the agent context
+ */
+export function createWorkersAIProvider(): ModelProvider {
+  return {
+    name: 'workers-ai',
+    async chat(request: ModelRequest, context: AgentContext): Promise<ModelResponse> {
+      if (!context.ai) {
+        throw new Error('Workers AI binding not available on agent context');
+      }
+
+      const result = await context.ai.run(request.model, {
+        messages: toOpenAIMessages(request.messages),
+        tools: request.tools.length ? request.tools : undefined,
+        temperature: request.temperature,
+      });
+
+      return {
+        content: result?.response ?? '',
+        toolCalls: parseOpenAIToolCalls(result?.tool_calls),
+      };
+    },
+
+    async *stream(request: ModelRequest, context: AgentContext): AsyncGenerator<ModelStreamChunk> {
+      // Workers AI only streams text, so turns that may call tools use chat()
+      if (request.tools.length || !context.ai) {
+        const response = await this.chat(request, context);
+        if (response.content) yield { type: 'delta', text: response.content };
+        yield { type: 'done', response };
+        return;
+      }
+
+      const body = await context.ai.run(request.model, {
+        messages: toOpenAIMessages(request.messages),
+        temperature: request.temperature,
+        stream: true,
+      });
+
+      let content = '';
+      for await (const event of readServerSentEvents(body)) {
+        if (event.data === '[DONE]') break;
+        const text = JSON.parse(event.data).response ?? '';
+        if (text) {
+          content += text;
+          yield { type: 'delta', text };
+        }
+      }
+
+      yield { type: 'done', response: { content } };
+    },
+  };
+}
+
+// ============ OpenAI-compatible ============
+
+/**
+ * OpenAI chat completions API
+ */
+export function createOpenAIProvider(options: ModelProviderOptions = {}): ModelProvider {
+  return createOpenAICompatibleProvider('openai', options, context => ({
+    baseUrl: options.baseUrl || 'https://api.openai.com/v1',
+    apiKey: options.apiKey || context.env?.OPENAI_API_KEY,
+  }));
+}
+
+/**
+ * ChittyServ inference gateway (OpenAI-compatible chat completions)
+ */
+export function createChittyServProvider(options: ModelProviderOptions = {}): ModelProvider {
+  return createOpenAICompatibleProvider('chittyserv', options, context => ({
+    baseUrl: options.baseUrl || context.env?.CHITTYSERV_ENDPOINT || 'https://serv.chitty.cc/v1',
+    apiKey: options.apiKey || context.env?.CHITTYSERV_API_KEY,
+  }));
+}
+
+function createOpenAICompatibleProvider(
+  name: ModelProviderName,
+  options: ModelProviderOptions,
+  resolve: (context: AgentContext) => { baseUrl: string; apiKey?: string }
+): ModelProvider {
+  const send = async (request: ModelRequest, context: AgentContext, stream: boolean) => {
+    const { baseUrl, apiKey } = resolve(context);
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: toOpenAIMessages(request.messages),
+        tools: request.tools.length ? request.tools : undefined,
+        temperature: request.temperature,
+        max_tokens: options.maxTokens,
+        stream: stream || undefined,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`${name} request failed: ${response.status} ${await response.text()}`);
+    }
+
+    return response;
+  };
+
+  return {
+    name,
+    async chat(request: ModelRequest, context: AgentContext): Promise<ModelResponse> {
+      const data = await (await send(request, context, false)).json() as any;
+      const message = data.choices?.[0]?.message ?? {};
+
+      return {
+        content: message.content ?? '',
+        toolCalls: parseOpenAIToolCalls(message.tool_calls),
+      };
+    },
+
+    async *stream(request: ModelRequest, context: AgentContext): AsyncGenerator<ModelStreamChunk> {
+      const response = await send(request, context, true);
+
+      let content = '';
+      const toolCalls: { id?: string; function: { name: string; arguments: string } }[] = [];
+
+      for await (const event of readServerSentEvents(response.body!)) {
+        if (event.data === '[DONE]') break;
+        const delta = JSON.parse(event.data).choices?.[0]?.delta ?? {};
+
+        if (delta.content) {
+          content += delta.content;
+          yield { type: 'delta', text: delta.content };
+        }
+
+        // Tool calls arrive in fragments keyed by index
+        for (const fragment of delta.tool_calls ?? []) {
+          const call = toolCalls[fragment.index] ??= { function: { name: '', arguments: '' } };
+          if (fragment.id) call.id = fragment.id;
+          if (fragment.function?.name) call.function.name += fragment.function.name;
+          if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+        }
+      }
+
+      yield {
+        type: 'done',
+        response: { content, toolCalls: parseOpenAIToolCalls(toolCalls.filter(Boolean)) },
+      };
+    },
+  };
+}
+
+function toOpenAIMessages(messages: ChatMessage[]) {
+  return messages.map(message => {
+    if (message.role === 'tool') {
+      return { role: 'tool', content: message.content, tool_call_id: message.toolCallId };
+    }
+
+    if (message.role === 'assistant' && message.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: message.content,
+        tool_calls: message.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+        })),
+      };
+    }
+
+    return { role: message.role, content: message.content };
+  });
+}
+
+/**
+ * Accepts both the OpenAI shape (`{ id, function: { name, arguments } }`) and
+ * the flat Workers AI shape (`{ name, arguments }`).
+ */
+function parseOpenAIToolCalls(raw: any[] | undefined): ToolCall[] | undefined {
+  if (!raw?.length) return undefined;
+
+  return raw.map(call => {
+    const fn = call.function ?? call;
+    return {
+      id: call.id || crypto.randomUUID(),
+      name: fn.name,
+      arguments: parseArguments(fn.arguments),
+    };
+  });
+}
+
+function parseArguments(raw: unknown): Record<string, any> {
+  if (!raw) return {};
+  if (typeof raw !== 'string') return raw as Record<string, any>;
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return {};
+  }
+}
+
+// ============ Anthropic ============
+
+/**
+ * Anthropic Messages API
+ */
+export function createAnthropicProvider(options: ModelProviderOptions = {}): ModelProvider {
+  const send = async (request: ModelRequest, context: AgentContext, stream: boolean) => {
+    const apiKey = options.apiKey || context.env?.ANTHROPIC_API_KEY;
+    const baseUrl = options.baseUrl || 'https://api.anthropic.com/v1';
+
+    const system = request.messages
+      .filter(m => m.role === 'system')
+      .map(m => m.content)
+      .join('\n\n');
+
+    const response = await fetch(`${baseUrl}/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'anthropic-version': '2023-06-01',
+        ...(apiKey && { 'x-api-key': apiKey }),
+      },
+      body: JSON.stringify({
+        model: request.model,
+        system: system || undefined,
+        messages: toAnthropicMessages(request.messages),
+        tools: request.tools.length
+          ? request.tools.map(t => ({
+              name: t.function.name,
+              description: t.function.description,
+              input_schema: t.function.parameters,
+            }))
+          : undefined,
+        temperature: request.temperature,
+        max_tokens: options.maxTokens ?? 1024,
+        stream: stream || undefined,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`anthropic request failed: ${response.status} ${await response.text()}`);
+    }
+
+    return response;
+  };
+
+  return {
+    name: 'anthropic',
+    async chat(request: ModelRequest, context: AgentContext): Promise<ModelResponse> {
+      const data = await (await send(request, context, false)).json() as { content?: any[] };
+      const blocks = data.content ?? [];
+      const toolCalls: ToolCall[] = blocks
+        .filter(b => b.type === 'tool_use')
+        .map(b => ({ id: b.id, name: b.name, arguments: b.input ?? {} }));
+
+      return {
+        content: blocks.filter(b => b.type === 'text').map(b => b.text).join(''),
+        toolCalls: toolCalls.length ? toolCalls : undefined,
+      };
+    },
+
+    async *stream(request: ModelRequest, context: AgentContext): AsyncGenerator<ModelStreamChunk> {
+      const response = await send(request, context, true);
+
+      let content = '';
+      const toolUses: { id: string; name: string; json: string }[] = [];
+      const blockIndex = new Map<number, number>();
+
+      for await (const event of readServerSentEvents(response.body!)) {
+        const data = JSON.parse(event.data);
+
+        if (data.type === 'content_block_start' && data.content_block?.type === 'tool_use') {
+          blockIndex.set(data.index, toolUses.length);
+          toolUses.push({ id: data.content_block.id, name: data.content_block.name, json: '' });
+        } else if (data.type === 'content_block_delta') {
+          if (data.delta?.type === 'text_delta') {
+            content += data.delta.text;
+            yield { type: 'delta', text: data.delta.text };
+          } else if (data.delta?.type === 'input_json_delta') {
+            toolUses[blockIndex.get(data.index)!].json += data.delta.partial_json;
+          }
+        } else if (data.type === 'message_stop') {
+          break;
+        }
+      }
+
+      const toolCalls = toolUses.map(t => ({ id: t.id, name: t.name, arguments: parseArguments(t.json) }));
+      yield {
+        type: 'done',
+        response: { content, toolCalls: toolCalls.length ? toolCalls : undefined },
+      };
+    },
+  };
+}
+
+/**
+ * Tool results become `tool_result` blocks on a user turn; consecutive results
+ * are merged so the user/assistant alternation Anthropic requires is preserved.
+ */
+function toAnthropicMessages(messages: ChatMessage[]) {
+  const result: { role: 'user' | 'assistant'; content: any[] }[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') continue;
+
+    if (message.role === 'tool') {
+      const block = { type: 'tool_result', tool_use_id: message.toolCallId, content: message.content };
+      const last = result[result.length - 1];
+      if (last?.role === 'user' && last.content.every(b => b.type === 'tool_result')) {
+        last.content.push(block);
+      } else {
+        result.push({ role: 'user', content: [block] });
+      }
+      continue;
+    }
+
+    const content: any[] = message.content ? [{ type: 'text', text: message.content }] : [];
+    if (message.role === 'assistant') {
+      for (const call of message.toolCalls ?? []) {
+        content.push({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments });
+      }
+    }
+    result.push({ role: message.role, content });
+  }
+
+  return result;
+}
+
+// ============ Factory & Fallback ============
+
+/**
+ * Create an adapter for a provider listed in `AgentManifest.model.provider`
+ */
+export function createModelProvider(
+  name: ModelProviderName,
+  options: ModelProviderOptions = {}
+): ModelProvider {
+  switch (name) {
+    case 'workers-ai':
+      return createWorkersAIProvider();
+    case 'chittyserv':
+      return createChittyServProvider(options);
+    case 'openai':
+      return createOpenAIProvider(options);
+    case 'anthropic':
+      return createAnthropicProvider(options);
+    default:
+      throw new Error(`Unknown model provider: ${name}`);
+  }
+}
+
+/**
+ * Parse a fallback model reference. `openai:gpt-4o-mini` switches provider;
+ * a bare model name stays on the primary provider.
+ */
+export function parseModelRef(
+  ref: string,
+  defaultProvider: ModelProviderName
+): { provider: ModelProviderName; model: string } {
+  const separator = ref.indexOf(':');
+  if (separator > 0) {
+    const provider = ref.slice(0, separator) as ModelProviderName;
+    if (MODEL_PROVIDER_NAMES.includes(provider)) {
+      return { provider, model: ref.slice(separator + 1) };
+    }
+  }
+  return { provider: defaultProvider, model: ref };
+}
+
+/**
+ * Wrap a provider so that errors from the primary model are retried once
+ * against the fallback provider and model.
+ */
+export function withFallback(
+  primary: ModelProvider,
+  fallback: ModelProvider,
+  fallbackModel: string
+): ModelProvider {
+  return {
+    name: primary.name,
+    async chat(request: ModelRequest, context: AgentContext): Promise<ModelResponse> {
+      try {
+        return await primary.chat(request, context);
+      } catch (error) {
+        console.warn(
+          `[Agent] ${primary.name} model ${request.model} failed, falling back to ${fallback.name} ${fallbackModel}:`,
+          error instanceof Error ? error.message : error
+        );
+        return fallback.chat({ ...request, model: fallbackModel }, context);
+      }
+    },
+
+    async *stream(request: ModelRequest, context: AgentContext): AsyncGenerator<ModelStreamChunk> {
+      let started = false;
+      try {
+        for await (const chunk of streamOrChat(primary, request, context)) {
+          started = true;
+          yield chunk;
+        }
+      } catch (error) {
+        // Once output has reached the caller, switching models would garble it
+        if (started) throw error;
+        console.warn(
+          `[Agent] ${primary.name} model ${request.model} failed, falling back to ${fallback.name} ${fallbackModel}:`,
+          error instanceof Error ? error.message : error
+        );
+        yield* streamOrChat(fallback, { ...request, model: fallbackModel }, context);
+      }
+    },
+  };
+}
+
+async function* streamOrChat(
+  provider: ModelProvider,
+  request: ModelRequest,
+  context: AgentContext
+): AsyncGenerator<ModelStreamChunk> {
+  if (provider.stream) {
+    yield* provider.stream(request, context);
+    return;
+  }
+
+  const response = await provider.chat(request, context);
+  if (response.content) yield { type: 'delta', text: response.content };
+  yield { type: 'done', response };
+}
+
+// ============ Utilities ============
+
+/**
+ * Parse a Server-Sent Events byte stream into `{ event, data }` messages
+ */
+async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<{ event?: string; data: string }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const raw = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        let event: string | undefined;
+        const data: string[] = [];
+        for (const line of raw.split('\n')) {
+          if (line.startsWith('event:')) event = line.slice(6).trim();
+          else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+        }
+        if (data.length) yield { event, data: data.join('\n') };
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BaseAgent } from './base-agent';
+import { createMemoryRateLimiter } from './rate-limit';
+import { createTool } from './tool-builder';
+import { callTool, createAgentHarness, reply } from './testing';
+import type { AgentSettings, ToolDefinition } from './types';
+
+class LimitedAgent extends BaseAgent {}
+
+function createAgent(tools: ToolDefinition[], settings: AgentSettings = {}) {
+  return new LimitedAgent({
+    name: 'limited-agent',
+    version: '1.0.0',
+    description: 'Agent under limits',
+    model: 'test-model',
+    systemPrompt: 'Test',
+    toolCategories: [{ name: 'test', description: 'Test tools', tools }],
+    settings,
+  });
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2026-01-01T00:00:00.000Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createRateLimiter', () => {
+  it('refills a token bucket over the window', async () => {
+    const limiter = createMemoryRateLimiter();
+    const rule = { limit: 2, windowSeconds: 60 };
+
+    expect(await limiter.check('k', rule)).toEqual({ allowed: true, limit: 2, remaining: 1 });
+    expect(await limiter.check('k', rule)).toEqual({ allowed: true, limit: 2, remaining: 0 });
+    expect(await limiter.check('k', rule)).toEqual({ allowed: false, limit: 2, remaining: 0, retryAfterSeconds: 30 });
+
+    vi.advanceTimersByTime(30_000);
+    expect((await limiter.check('k', rule)).allowed).toBe(true);
+    expect((await limiter.check('k', rule)).allowed).toBe(false);
+  });
+
+  it('weights the previous sliding window by its remaining overlap', async () => {
+    const limiter = createMemoryRateLimiter();
+    const rule = { limit: 4, windowSeconds: 60, algorithm: 'sliding-window' as const };
+
+    for (let i = 0; i < 4; i++) {
+      expect((await limiter.check('k', rule)).allowed).toBe(true);
+    }
+    expect(await limiter.check('k', rule)).toMatchObject({ allowed: false, retryAfterSeconds: 60 });
+
+    // Next window: the previous 4 still count in full, and decay by 1 every 15s
+    vi.advanceTimersByTime(60_000);
+    expect(await limiter.check('k', rule)).toMatchObject({ allowed: false, remaining: 0, retryAfterSeconds: 15 });
+
+    vi.advanceTimersByTime(15_000);
+    expect(await limiter.check('k', rule)).toMatchObject({ allowed: true, remaining: 0 });
+    expect((await limiter.check('k', rule)).allowed).toBe(false);
+  });
+
+  it('only consumes a daily quota when cost is positive, and resets at midnight UTC', async () => {
+    vi.setSystemTime(new Date('2026-01-01T23:59:00.000Z'));
+    const limiter = createMemoryRateLimiter();
+
+    expect(await limiter.quota('k', 1, 0)).toEqual({ allowed: true, limit: 1, remaining: 1 });
+    expect(await limiter.quota('k', 1, 0)).toEqual({ allowed: true, limit: 1, remaining: 1 });
+    expect(await limiter.quota('k', 1)).toEqual({ allowed: true, limit: 1, remaining: 0 });
+    expect(await limiter.quota('k', 1, 0)).toEqual({ allowed: false, limit: 1, remaining: 0, retryAfterSeconds: 60 });
+
+    vi.advanceTimersByTime(60_000);
+    expect(await limiter.quota('k', 1)).toEqual({ allowed: true, limit: 1, remaining: 0 });
+  });
+});
+
+describe('agent limits', () => {
+  it('answers a rate-limited tool call with a rate_limited result', async () => {
+    const ping = createTool({
+      name: 'ping',
+      description: 'Ping',
+      category: 'test',
+      parameters: {},
+      rateLimit: { limit: 1, windowSeconds: 60 },
+      execute: async () => ({ pong: true }),
+    });
+    const harness = createAgentHarness(createAgent([ping]), [
+      callTool('ping'),
+      callTool('ping'),
+      reply('done'),
+    ]);
+
+    await harness.chat('Ping twice');
+
+    expect(JSON.parse(harness.model.requests[2].messages.at(-1)!.content)).toEqual({
+      success: false,
+      error: 'Rate limit exceeded for tool ping; retry in 60s',
+      code: 'rate_limited',
+    });
+    expect(harness.toolCalls('ping').map(span => span.outcome)).toEqual(['executed', 'rate_limited']);
+  });
+
+  it('answers /chat with 429 and Retry-After once dailyModelCalls is spent', async () => {
+    vi.setSystemTime(new Date('2026-01-01T23:59:30.000Z'));
+    const harness = createAgentHarness(createAgent([], { dailyModelCalls: 1 }), [reply('one'), reply('two')]);
+    const chat = () => harness.request({ path: '/chat', body: { message: 'Hi' } });
+
+    expect((await chat()).status).toBe(200);
+    const limited = await chat();
+
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('Retry-After')).toBe('30');
+    expect(limited.body).toMatchObject({ error: 'Too many requests', retryAfter: 30 });
+    expect(harness.model.requests).toHaveLength(1);
+  });
+});
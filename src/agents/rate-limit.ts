@@ -0,0 +1,154 @@
+/**
+ * ChittyOS Agent Rate Limiting
+ *
+ * Token bucket and sliding window limits, plus fixed daily quotas, stored in
+ * a KV namespace. Keys are caller-defined (e.g. `session:<id>`, `user:<id>`,
+ * `tool:<name>:<user>`), so one limiter serves every scope.
+ *
+ * KV is eventually consistent and has no atomic increment, so limits are
+ * approximate under concurrent requests from different locations. Use a
+ * Durable Object-backed KVLike where exact limits matter.
+ *
+ * Usage:
+ *   const limiter = createRateLimiter(env.KV);
+ *   const result = await limiter.check(`user:${userId}`, { limit: 20, windowSeconds: 60 });
+ *   if (!result.allowed) return new Response(null, { status: 429 });
+ */
+
+import type { RateLimitRule } from './types';
+import { createMemoryKV, type KVLike } from './kv';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Seconds until the request would be allowed; set when denied */
+  retryAfterSeconds?: number;
+}
+
+export interface RateLimiter {
+  /** Consume `cost` units against a rule; a cost of 0 only checks */
+  check(key: string, rule: RateLimitRule, cost?: number): Promise<RateLimitResult>;
+  /** Consume against a daily quota that resets at 00:00 UTC */
+  quota(key: string, limit: number, cost?: number): Promise<RateLimitResult>;
+}
+
+export class RateLimitError extends Error {
+  constructor(message: string, readonly retryAfterSeconds: number) {
+    super(message);
+  }
+}
+
+/**
+ * Create a rate limiter backed by a KV namespace
+ */
+export function createRateLimiter(kv: KVLike, options: { prefix?: string } = {}): RateLimiter {
+  const prefix = options.prefix ?? 'ratelimit:';
+
+  const read = async <T>(key: string): Promise<T | null> => {
+    const raw = await kv.get(`${prefix}${key}`);
+    return raw ? JSON.parse(raw) as T : null;
+  };
+
+  const write = (key: string, value: unknown, ttlSeconds: number) =>
+    kv.put(`${prefix}${key}`, JSON.stringify(value), {
+      // KV requires a TTL of at least 60 seconds
+      expirationTtl: Math.max(60, Math.ceil(ttlSeconds)),
+    });
+
+  const tokenBucket = async (key: string, rule: RateLimitRule, cost: number): Promise<RateLimitResult> => {
+    const now = Date.now();
+    const refillPerMs = rule.limit / (rule.windowSeconds * 1000);
+    const bucket = await read<{ tokens: number; updatedAt: number }>(key);
+    const tokens = Math.min(
+      rule.limit,
+      bucket ? bucket.tokens + (now - bucket.updatedAt) * refillPerMs : rule.limit
+    );
+
+    if (tokens < Math.max(cost, 1)) {
+      return {
+        allowed: false,
+        limit: rule.limit,
+        remaining: Math.floor(tokens),
+        retryAfterSeconds: Math.ceil((Math.max(cost, 1) - tokens) / refillPerMs / 1000),
+      };
+    }
+
+    if (cost > 0) {
+      await write(key, { tokens: tokens - cost, updatedAt: now }, rule.windowSeconds);
+    }
+    return { allowed: true, limit: rule.limit, remaining: Math.floor(tokens - cost) };
+  };
+
+  // Sliding window counter: the previous window's count is weighted by how
+  // much of it still overlaps the sliding window
+  const slidingWindow = async (key: string, rule: RateLimitRule, cost: number): Promise<RateLimitResult> => {
+    const now = Date.now();
+    const windowMs = rule.windowSeconds * 1000;
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+    const stored = await read<{ windowStart: number; count: number; previous: number }>(key);
+
+    let count = 0;
+    let previous = 0;
+    if (stored?.windowStart === windowStart) {
+      count = stored.count;
+      previous = stored.previous;
+    } else if (stored?.windowStart === windowStart - windowMs) {
+      previous = stored.count;
+    }
+
+    const overlap = 1 - (now - windowStart) / windowMs;
+    const used = previous * overlap + count;
+
+    if (used + Math.max(cost, 1) > rule.limit) {
+      const needed = used + Math.max(cost, 1) - rule.limit;
+      // Wait for the previous window to decay enough, or for this one to end
+      const retryMs = previous > 0 && needed <= previous * overlap
+        ? (needed / previous) * windowMs
+        : windowStart + windowMs - now;
+      return {
+        allowed: false,
+        limit: rule.limit,
+        remaining: Math.max(0, Math.floor(rule.limit - used)),
+        retryAfterSeconds: Math.max(1, Math.ceil(retryMs / 1000)),
+      };
+    }
+
+    if (cost > 0) {
+      await write(key, { windowStart, count: count + cost, previous }, rule.windowSeconds * 2);
+    }
+    return { allowed: true, limit: rule.limit, remaining: Math.floor(rule.limit - used - cost) };
+  };
+
+  return {
+    check(key, rule, cost = 1) {
+      return rule.algorithm === 'sliding-window'
+        ? slidingWindow(key, rule, cost)
+        : tokenBucket(key, rule, cost);
+    },
+
+    async quota(key, limit, cost = 1) {
+      const now = new Date();
+      const day = now.toISOString().slice(0, 10);
+      const nextDay = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+      const secondsLeft = Math.ceil((nextDay - now.getTime()) / 1000);
+
+      const used = (await read<number>(`quota:${key}:${day}`)) ?? 0;
+      if (used + Math.max(cost, 1) > limit) {
+        return { allowed: false, limit, remaining: Math.max(0, limit - used), retryAfterSeconds: secondsLeft };
+      }
+
+      if (cost > 0) {
+        await write(`quota:${key}:${day}`, used + cost, secondsLeft);
+      }
+      return { allowed: true, limit, remaining: limit - used - cost };
+    },
+  };
+}
+
+/**
+ * Create a rate limiter that lives in process memory
+ */
+export function createMemoryRateLimiter(options: { prefix?: string } = {}): RateLimiter {
+  return createRateLimiter(createMemoryKV(), options);
+}
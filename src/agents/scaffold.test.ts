@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import ts from 'typescript';
+import { scaffoldAgentProject } from './scaffold';
+import { createDurableSessionStore, type DurableObjectNamespaceLike } from './session-store';
+import { createTool } from './tool-builder';
+import type { AgentConfig } from './types';
+
+const config: AgentConfig = {
+  name: 'cleanup-agent',
+  version: '1.0.0',
+  description: 'Finds and removes clutter',
+  model: '@cf/meta/llama-3.1-8b-instruct',
+  systemPrompt: 'You clean up.',
+  toolCategories: [{
+    name: 'File System',
+    description: 'File tools',
+    tools: [createTool({
+      name: 'scan_directory',
+      description: 'Scan a directory',
+      category: 'File System',
+      parameters: { path: { type: 'string', description: 'Directory', required: true } },
+    })],
+  }],
+  settings: { maxHistoryMessages: 2 },
+};
+
+/**
+ * Compile the generated state.ts and bind its class to an in-memory storage
+ */
+function loadStateObject(source: string, className: string): DurableObjectNamespaceLike {
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022 },
+  });
+  const exports: Record<string, any> = {};
+  new Function('exports', outputText)(exports);
+
+  const objects = new Map<string, any>();
+  return {
+    idFromName: name => name,
+    get(id) {
+      if (!objects.has(id)) {
+        const entries = new Map<string, unknown>();
+        const storage = {
+          get: async (key: string) => structuredClone(entries.get(key)),
+          put: async (key: string, value: unknown) => void entries.set(key, structuredClone(value)),
+          delete: async (key: string) => entries.delete(key),
+        };
+        objects.set(id, new exports[className]({ storage }));
+      }
+      const object = objects.get(id);
+      return { fetch: (input, init) => object.fetch(new Request(input, init)) };
+    },
+  };
+}
+
+describe('scaffoldAgentProject', () => {
+  it('generates the project files with one tool module per category', () => {
+    const files = scaffoldAgentProject(config, { accountId: 'abc123' });
+
+    expect(Object.keys(files).sort()).toEqual([
+      'package.json',
+      'src/config.ts',
+      'src/index.ts',
+      'src/tools/file-system.ts',
+      'test/agent.test.ts',
+      'tsconfig.json',
+      'wrangler.toml',
+    ]);
+    expect(files['src/tools/file-system.ts']).toContain('// TODO: implement scan_directory');
+    expect(files['src/index.ts']).not.toContain('resolveSessionStore');
+  });
+
+  it('routes sessions to the generated Durable Object', () => {
+    const files = scaffoldAgentProject(config, { accountId: 'abc123', durableObject: true });
+
+    expect(files['wrangler.toml']).toContain('class_name = "CleanupAgentState"');
+    expect(files['src/index.ts']).toContain(`export { CleanupAgentState } from './state';`);
+    expect(files['src/index.ts']).toContain('const namespace = context.env.AGENT_STATE;');
+    expect(files['src/index.ts']).toContain('return createDurableSessionStore(namespace, {');
+  });
+
+  it('generates a state object that serves createDurableSessionStore', async () => {
+    const files = scaffoldAgentProject(config, { accountId: 'abc123', durableObject: true });
+    const sessions = createDurableSessionStore(loadStateObject(files['src/state.ts'], 'CleanupAgentState'), {
+      maxMessages: 2,
+    });
+
+    await sessions.append('team/s1', [{ role: 'user', content: 'one' }]);
+    await sessions.append('team/s1', [{ role: 'user', content: 'two' }, { role: 'assistant', content: 'three' }]);
+
+    expect((await sessions.load('team/s1'))?.messages.map(m => m.content)).toEqual(['two', 'three']);
+    expect(await sessions.load('other')).toBeNull();
+
+    await sessions.delete('team/s1');
+    expect(await sessions.load('team/s1')).toBeNull();
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * ChittyOS Agent Scaffolding
+ *
+ * Generates a complete Cloudflare Worker project for an agent from its
+ * AgentConfig: wrangler.toml, package.json, tsconfig, an entrypoint wired to
+ * createFetchHandler, one tool stub module per ToolCategory, an optional
+ * Durable Object that holds session state in place of KV, and a starter
+ * vitest file.
+ *
+ * Usage:
+ *   const files = scaffoldAgentProject(myAgentConfig, { accountId: 'abc123', durableObject: true });
+ *   await writeAgentProject(files, './my-agent');
+ */
+
+import type { AgentConfig, ToolCategory } from './types';
+import { generatePackageJson, generateWranglerToml } from './templates';
+
+export interface ScaffoldOptions {
+  accountId: string;
+  kvNamespaces?: { binding: string; id: string }[];
+  aiBinding?: boolean;
+  vars?: Record<string, string>;
+  /** Keep session state in a per-session Durable Object instead of KV */
+  durableObject?: boolean | { binding?: string; className?: string };
+  /** Version range of @chittyos/core in the generated package.json */
+  coreVersion?: string;
+}
+
+/** Project files keyed by path relative to the project root */
+export type ScaffoldFiles = Record<string, string>;
+
+/**
+ * Build the file tree for a new agent project
+ */
+export function scaffoldAgentProject(config: AgentConfig, options: ScaffoldOptions): ScaffoldFiles {
+  const className = `${pascalCase(config.name.replace(/-?agent$/i, ''))}Agent`;
+  const durableObject = options.durableObject
+    ? {
+        binding: 'AGENT_STATE',
+        className: `${className}State`,
+        ...(typeof options.durableObject === 'object' && options.durableObject),
+      }
+    : undefined;
+
+  const packageJson = generatePackageJson(config.name, config.version, config.description);
+  packageJson.scripts.test = 'vitest run';
+  packageJson.devDependencies.vitest = '^4.0.18';
+  if (options.coreVersion) {
+    packageJson.dependencies['@chittyos/core'] = options.coreVersion;
+  }
+
+  const files: ScaffoldFiles = {
+    'wrangler.toml': generateWranglerToml(config.name, options.accountId, {
+      kvNamespaces: options.kvNamespaces,
+      aiBinding: options.aiBinding,
+      vars: options.vars,
+      durableObjects: durableObject && [durableObject],
+    }),
+    'package.json': `${JSON.stringify(packageJson, null, 2)}\n`,
+    'tsconfig.json': `${JSON.stringify(TSCONFIG, null, 2)}\n`,
+    'src/index.ts': generateEntrypoint(className, durableObject),
+    'src/config.ts': generateConfigModule(config),
+    'test/agent.test.ts': generateStarterTest(config.name, className),
+  };
+
+  for (const category of config.toolCategories) {
+    files[`src/tools/${kebabCase(category.name)}.ts`] = generateToolModule(category);
+  }
+
+  if (durableObject) {
+    files['src/state.ts'] = generateStateObject(durableObject.className);
+  }
+
+  return files;
+}
+
+/**
+ * Write a scaffolded file tree under `directory`. Existing files are left
+ * alone (and reported as an error) unless `overwrite` is set.
+ */
+export async function writeAgentProject(
+  files: ScaffoldFiles,
+  directory: string,
+  options: { overwrite?: boolean } = {}
+): Promise<string[]> {
+  const { mkdir, writeFile, access } = await import('fs/promises');
+  const { dirname, join } = await import('path');
+
+  if (!options.overwrite) {
+    for (const file of Object.keys(files)) {
+      const exists = await access(join(directory, file)).then(() => true, () => false);
+      if (exists) {
+        throw new Error(`Refusing to overwrite ${join(directory, file)}`);
+      }
+    }
+  }
+
+  const written: string[] = [];
+  for (const [file, contents] of Object.entries(files)) {
+    const target = join(directory, file);
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(target, contents);
+    written.push(target);
+  }
+  return written;
+}
+
+// ============ File Templates ============
+
+const TSCONFIG = {
+  compilerOptions: {
+    target: 'ES2022',
+    module: 'ESNext',
+    moduleResolution: 'bundler',
+    lib: ['ES2022'],
+    types: ['@cloudflare/workers-types'],
+    strict: true,
+    skipLibCheck: true,
+    noEmit: true,
+  },
+  include: ['src/**/*', 'test/**/*'],
+};
+
+function generateEntrypoint(
+  className: string,
+  durableObject?: { binding: string; className: string }
+): string {
+  // Sessions go to the Durable Object when it is bound; tests without the
+  // binding fall back to the KV store
+  const sessionStore = durableObject
+    ? [
+        ``,
+        `  protected resolveSessionStore(context: AgentContext): SessionStore | undefined {`,
+        `    const namespace = context.env.${durableObject.binding};`,
+        `    if (!namespace) {`,
+        `      return super.resolveSessionStore(context);`,
+        `    }`,
+        `    return createDurableSessionStore(namespace, {`,
+        `      ttlSeconds: agentConfig.settings?.sessionTtlSeconds,`,
+        `      maxMessages: agentConfig.settings?.maxHistoryMessages,`,
+        `      maxTokens: agentConfig.settings?.maxHistoryTokens,`,
+        `    });`,
+        `  }`,
+      ]
+    : [];
+
+  return [
+    ...(durableObject
+      ? [
+          `import {`,
+          `  BaseAgent,`,
+          `  createDurableSessionStore,`,
+          `  type AgentContext,`,
+          `  type SessionStore,`,
+          `} from '@chittyos/core/agents';`,
+        ]
+      : [`import { BaseAgent } from '@chittyos/core/agents';`]),
+    `import { agentConfig } from './config';`,
+    ...(durableObject ? [``, `export { ${durableObject.className} } from './state';`] : []),
+    ``,
+    `export class ${className} extends BaseAgent {`,
+    `  constructor() {`,
+    `    super(agentConfig);`,
+    `  }`,
+    ...sessionStore,
+    `}`,
+    ``,
+    `export default {`,
+    `  fetch: new ${className}().createFetchHandler(),`,
+    `};`,
+    ``,
+  ].join('\n');
+}
+
+function generateConfigModule(config: AgentConfig): string {
+  const categories = config.toolCategories.map(category => ({
+    module: kebabCase(category.name),
+    variable: `${camelCase(category.name)}Tools`,
+    category,
+  }));
+
+  const { toolCategories: _toolCategories, ...rest } = config;
+  const body = toSource(rest, 0).slice(0, -1);
+  const toolCategories = categories
+    .map(({ variable, category }) =>
+      `    { name: ${quote(category.name)}, description: ${quote(category.description)}, tools: ${variable} },`)
+    .join('\n');
+
+  return [
+    `import type { AgentConfig } from '@chittyos/core/agents';`,
+    ...categories.map(({ module, variable }) => `import { ${variable} } from './tools/${module}';`),
+    ``,
+    `export const agentConfig: AgentConfig = ${body}  toolCategories: [`,
+    toolCategories,
+    `  ],`,
+    `};`,
+    ``,
+  ].join('\n');
+}
+
+function generateToolModule(category: ToolCategory): string {
+  const factories = new Set(category.tools.map(tool =>
+    tool.requiresConfirmation ? 'createConfirmableTool' : 'createTool'));
+
+  const tools = category.tools.map(tool => {
+    const { execute: _execute, argsSchema: _argsSchema, requiresConfirmation, ...definition } = tool;
+    const factory = requiresConfirmation ? 'createConfirmableTool' : 'createTool';
+    const fields = toSource(definition, 1).slice(0, -4);
+    return [
+      `  ${factory}(${fields}`,
+      `    execute: async (args, context) => {`,
+      `      // TODO: implement ${tool.name}`,
+      `      return { success: false, error: ${quote(`${tool.name} is not implemented yet`)} };`,
+      `    },`,
+      `  }),`,
+    ].join('\n');
+  });
+
+  return [
+    `import { ${[...factories].sort().join(', ')}, type ToolDefinition } from '@chittyos/core/agents';`,
+    ``,
+    `/**`,
+    ` * ${category.description}`,
+    ` */`,
+    `export const ${camelCase(category.name)}Tools: ToolDefinition[] = [`,
+    ...tools,
+    `];`,
+    ``,
+  ].join('\n');
+}
+
+function generateStateObject(className: string): string {
+  return [
+    `import type { AgentState } from '@chittyos/core/agents';`,
+    ``,
+    `/**`,
+    ` * Per-session agent state: GET, PUT or DELETE /<sessionId>.`,
+    ` * Read through createDurableSessionStore in src/index.ts.`,
+    ` */`,
+    `export class ${className} {`,
+    `  constructor(private state: DurableObjectState) {}`,
+    ``,
+    `  async fetch(request: Request): Promise<Response> {`,
+    `    const sessionId = decodeURIComponent(new URL(request.url).pathname.slice(1));`,
+    `    if (!sessionId) {`,
+    `      return Response.json({ error: 'sessionId required' }, { status: 400 });`,
+    `    }`,
+    ``,
+    `    if (request.method === 'PUT') {`,
+    `      const agentState = await request.json() as AgentState;`,
+    `      await this.state.storage.put(sessionId, agentState);`,
+    `      return Response.json(agentState);`,
+    `    }`,
+    ``,
+    `    if (request.method === 'DELETE') {`,
+    `      await this.state.storage.delete(sessionId);`,
+    `      return new Response(null, { status: 204 });`,
+    `    }`,
+    ``,
+    `    const agentState = await this.state.storage.get<AgentState>(sessionId);`,
+    `    return agentState`,
+    `      ? Response.json(agentState)`,
+    `      : Response.json({ error: 'Not found' }, { status: 404 });`,
+    `  }`,
+    `}`,
+    ``,
+  ].join('\n');
+}
+
+function generateStarterTest(name: string, className: string): string {
+  return [
+    `import { describe, it, expect } from 'vitest';`,
+    `import { createAgentHarness, reply } from '@chittyos/core/agents/testing';`,
+    `import { ${className} } from '../src/index';`,
+    ``,
+    `describe(${quote(name)}, () => {`,
+    `  it('reports healthy', async () => {`,
+    `    const harness = createAgentHarness(new ${className}());`,
+    `    const response = await harness.request({ path: '/health' });`,
+    `    expect(response.status).toBe(200);`,
+    `  });`,
+    ``,
+    `  it('answers a chat message', async () => {`,
+    `    const harness = createAgentHarness(new ${className}(), [reply('Hello!')]);`,
+    `    const result = await harness.chat('Hi');`,
+    `    expect(result.response).toBe('Hello!');`,
+    `  });`,
+    `});`,
+    ``,
+  ].join('\n');
+}
+
+// ============ Helpers ============
+
+/**
+ * Render a JSON-compatible value as a TypeScript literal in the repo's style
+ */
+function toSource(value: any, depth: number): string {
+  const indent = '  '.repeat(depth + 1);
+  const closing = '  '.repeat(depth);
+
+  if (typeof value === 'string') return quote(value);
+  if (value === null || typeof value !== 'object') return String(value);
+
+  if (Array.isArray(value)) {
+    if (!value.length) return '[]';
+    if (value.every(item => item === null || typeof item !== 'object')) {
+      return `[${value.map(item => toSource(item, depth)).join(', ')}]`;
+    }
+    return `[\n${value.map(item => `${indent}${toSource(item, depth + 1)},`).join('\n')}\n${closing}]`;
+  }
+
+  const entries = Object.entries(value).filter(([, inner]) => inner !== undefined);
+  if (!entries.length) return '{}';
+  const lines = entries.map(([key, inner]) =>
+    `${indent}${/^[A-Za-z_$][\w$]*$/.test(key) ? key : quote(key)}: ${toSource(inner, depth + 1)},`);
+  return `{\n${lines.join('\n')}\n${closing}}`;
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+}
+
+function words(value: string): string[] {
+  return value.split(/[^A-Za-z0-9]+|(?<=[a-z0-9])(?=[A-Z])/).filter(Boolean);
+}
+
+function pascalCase(value: string): string {
+  return words(value).map(word => word[0].toUpperCase() + word.slice(1).toLowerCase()).join('');
+}
+
+function camelCase(value: string): string {
+  const pascal = pascalCase(value);
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+}
+
+function kebabCase(value: string): string {
+  return words(value).map(word => word.toLowerCase()).join('-');
+}
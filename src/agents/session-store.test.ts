@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createSessionStore, SessionOwnerError } from './session-store';
+import { trimHistory } from './history';
+import { createMemoryKV } from './kv';
+import type { ChatMessage } from './types';
+
+const user = (content: string): ChatMessage => ({ role: 'user', content });
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createSessionStore', () => {
+  it('appends messages and merges context across calls', async () => {
+    const sessions = createSessionStore(createMemoryKV());
+
+    await sessions.append('s1', [user('one')], { locale: 'en' });
+    const state = await sessions.append('s1', [user('two')], { topic: 'disk' });
+
+    expect(state.messages.map(m => m.content)).toEqual(['one', 'two']);
+    expect(state.context).toEqual({ locale: 'en', topic: 'disk' });
+    expect(await sessions.load('s1')).toEqual(state);
+  });
+
+  it('trims stored history to maxMessages', async () => {
+    const sessions = createSessionStore(createMemoryKV(), { maxMessages: 2 });
+
+    const state = await sessions.append('s1', [user('a'), user('b'), user('c')]);
+
+    expect(state.messages.map(m => m.content)).toEqual(['b', 'c']);
+  });
+
+  it('expires sessions idle for longer than ttlSeconds', async () => {
+    vi.useFakeTimers();
+    const kv = createMemoryKV();
+    const sessions = createSessionStore(kv, { ttlSeconds: 60 });
+
+    await sessions.append('s1', [user('hello')]);
+    vi.advanceTimersByTime(61_000);
+
+    expect(await sessions.load('s1')).toBeNull();
+    expect(await kv.get('session:s1')).toBeNull();
+  });
+
+  it('keeps a session to the user that started it', async () => {
+    const sessions = createSessionStore(createMemoryKV());
+
+    const state = await sessions.append('s1', [user('hello')], undefined, 'alice');
+    expect(state.userId).toBe('alice');
+
+    await expect(sessions.append('s1', [user('hi')], undefined, 'bob')).rejects.toThrow(SessionOwnerError);
+    await expect(sessions.append('s1', [user('hi')])).rejects.toThrow('belongs to another user');
+    expect((await sessions.append('s1', [user('again')], undefined, 'alice')).messages).toHaveLength(2);
+  });
+
+  it('clamps short TTLs to the KV minimum', async () => {
+    const kv = createMemoryKV();
+    const put = vi.spyOn(kv, 'put');
+    const sessions = createSessionStore(kv, { ttlSeconds: 30 });
+
+    await sessions.append('s1', [user('hello')]);
+
+    expect(put.mock.calls[0][2]).toEqual({ expirationTtl: 60 });
+  });
+
+  it('deletes a session', async () => {
+    const sessions = createSessionStore(createMemoryKV());
+
+    await sessions.append('s1', [user('hello')]);
+    await sessions.delete('s1');
+
+    expect(await sessions.load('s1')).toBeNull();
+  });
+});
+
+describe('trimHistory', () => {
+  it('drops tool messages orphaned by trimming', () => {
+    const messages: ChatMessage[] = [
+      user('call it'),
+      { role: 'assistant', content: '', toolCalls: [{ id: 'c1', name: 'echo', arguments: {} }] },
+      { role: 'tool', content: '{}', toolCallId: 'c1' },
+      { role: 'assistant', content: 'done' },
+    ];
+
+    expect(trimHistory(messages, { maxMessages: 2 })).toEqual([messages[3]]);
+  });
+
+  it('drops the oldest messages to fit a token budget', () => {
+    const messages = [user('x'.repeat(400)), user('short')];
+
+    expect(trimHistory(messages, { maxTokens: 20 })).toEqual([messages[1]]);
+  });
+});
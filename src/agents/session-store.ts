@@ -0,0 +1,193 @@
+/**
+ * ChittyOS Agent Session Store
+ *
+ * Persists `AgentState` between Worker invocations so conversations keep
+ * their history, in KV or in a per-session Durable Object. Sessions expire
+ * after `ttlSeconds` without activity. A session belongs to the user that
+ * started it, and appending as anyone else throws a SessionOwnerError.
+ *
+ * Usage:
+ *   const sessions = createSessionStore(env.KV, { maxMessages: 40 });
+ *   const state = await sessions.append(sessionId, [userMessage, reply]);
+ */
+
+import type { AgentState, ChatMessage } from './types';
+import { createMemoryKV, type KVLike } from './kv';
+import { trimHistory } from './history';
+
+export interface SessionStoreOptions {
+  prefix?: string;
+  ttlSeconds?: number;
+  maxMessages?: number;
+  maxTokens?: number;
+}
+
+export interface SessionStore {
+  load(sessionId: string): Promise<AgentState | null>;
+  save(state: AgentState): Promise<AgentState>;
+  append(
+    sessionId: string,
+    messages: ChatMessage[],
+    context?: Record<string, any>,
+    userId?: string
+  ): Promise<AgentState>;
+  delete(sessionId: string): Promise<void>;
+}
+
+/**
+ * The subset of a Cloudflare DurableObjectNamespace used by the Durable
+ * Object session store
+ */
+export interface DurableObjectNamespaceLike {
+  idFromName(name: string): any;
+  get(id: any): { fetch(input: string, init?: RequestInit): Promise<Response> };
+}
+
+export class SessionOwnerError extends Error {
+  constructor(readonly sessionId: string) {
+    super(`Session ${sessionId} belongs to another user`);
+  }
+}
+
+/**
+ * Throw unless the session was started by `userId` (both anonymous counts)
+ */
+export function assertSessionOwner(state: AgentState | null, userId: string | undefined): void {
+  if (state && state.userId !== userId) {
+    throw new SessionOwnerError(state.sessionId);
+  }
+}
+
+/** Raw state storage behind a session store */
+interface SessionBackend {
+  get(sessionId: string): Promise<AgentState | null>;
+  put(state: AgentState): Promise<void>;
+  delete(sessionId: string): Promise<void>;
+}
+
+const DEFAULT_SESSION_TTL = 86400;
+
+/**
+ * Create a session store backed by a KV namespace
+ */
+export function createSessionStore(kv: KVLike, options: SessionStoreOptions = {}): SessionStore {
+  const prefix = options.prefix ?? 'session:';
+  const ttlSeconds = options.ttlSeconds ?? DEFAULT_SESSION_TTL;
+
+  return createStore({
+    async get(sessionId) {
+      const raw = await kv.get(`${prefix}${sessionId}`);
+      return raw ? JSON.parse(raw) as AgentState : null;
+    },
+    async put(state) {
+      await kv.put(`${prefix}${state.sessionId}`, JSON.stringify(state), {
+        // KV requires a TTL of at least 60 seconds; load checks the exact idle time
+        expirationTtl: Math.max(60, Math.ceil(ttlSeconds)),
+      });
+    },
+    async delete(sessionId) {
+      await kv.delete(`${prefix}${sessionId}`);
+    },
+  }, options);
+}
+
+/**
+ * Create a session store backed by a Durable Object namespace, one object
+ * per session. The object answers GET, PUT and DELETE on `/<sessionId>`,
+ * like the state class generated by scaffoldAgentProject.
+ */
+export function createDurableSessionStore(
+  namespace: DurableObjectNamespaceLike,
+  options: Omit<SessionStoreOptions, 'prefix'> = {}
+): SessionStore {
+  const send = (sessionId: string, init?: RequestInit) =>
+    namespace
+      .get(namespace.idFromName(sessionId))
+      .fetch(`https://session/${encodeURIComponent(sessionId)}`, init);
+
+  return createStore({
+    async get(sessionId) {
+      const response = await send(sessionId);
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`Session ${sessionId} load failed: ${response.status}`);
+      }
+      return await response.json() as AgentState;
+    },
+    async put(state) {
+      const response = await send(state.sessionId, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(state),
+      });
+      if (!response.ok) {
+        throw new Error(`Session ${state.sessionId} save failed: ${response.status}`);
+      }
+    },
+    async delete(sessionId) {
+      await send(sessionId, { method: 'DELETE' });
+    },
+  }, options);
+}
+
+function createStore(backend: SessionBackend, options: SessionStoreOptions): SessionStore {
+  const ttlSeconds = options.ttlSeconds ?? DEFAULT_SESSION_TTL;
+
+  const store: SessionStore = {
+    async load(sessionId) {
+      const state = await backend.get(sessionId);
+      if (!state) return null;
+
+      // KV expiry is eventually consistent (and Durable Objects never
+      // expire), so check idle time ourselves
+      if (Date.now() - new Date(state.updatedAt).getTime() > ttlSeconds * 1000) {
+        await backend.delete(sessionId);
+        return null;
+      }
+
+      return state;
+    },
+
+    async save(state) {
+      const saved: AgentState = {
+        ...state,
+        messages: trimHistory(state.messages, {
+          maxMessages: options.maxMessages,
+          maxTokens: options.maxTokens,
+        }),
+        updatedAt: new Date().toISOString(),
+      };
+
+      await backend.put(saved);
+      return saved;
+    },
+
+    async append(sessionId, messages, context, userId) {
+      const now = new Date().toISOString();
+      const existing = await store.load(sessionId);
+      assertSessionOwner(existing, userId);
+
+      return store.save({
+        sessionId,
+        ...(userId && { userId }),
+        messages: [...(existing?.messages ?? []), ...messages],
+        context: { ...existing?.context, ...context },
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      });
+    },
+
+    async delete(sessionId) {
+      await backend.delete(sessionId);
+    },
+  };
+
+  return store;
+}
+
+/**
+ * Create a session store that lives in process memory
+ */
+export function createMemorySessionStore(options: SessionStoreOptions = {}): SessionStore {
+  return createSessionStore(createMemoryKV(), options);
+}
@@ -4,7 +4,7 @@
  * Pre-built templates for common agent patterns.
  */
 
-import type { AgentConfig, AgentManifest, AgentSettings } from './types';
+import type { AgentConfig, AgentManifest, AgentManifestOptions, AgentSettings } from './types';
 
 // ============ System Prompt Templates ============
 
@@ -112,13 +112,7 @@ export const agentConfigTemplates = {
 
 export function createAgentManifest(
   config: AgentConfig,
-  options: {
-    tier: number;
-    category: AgentManifest['category'];
-    domain?: string;
-    maintainer: string;
-    repository: string;
-  }
+  options: AgentManifestOptions
 ): AgentManifest {
   return {
     name: config.name,
@@ -127,15 +121,16 @@ export function createAgentManifest(
     tier: options.tier,
     category: options.category,
     domain: options.domain,
-    status: 'active',
+    status: options.status ?? 'active',
     toolCategories: config.toolCategories.map(cat => ({
       name: cat.name,
       description: cat.description,
       toolCount: cat.tools.length,
     })),
     model: {
-      provider: 'workers-ai',
+      provider: config.provider ?? 'workers-ai',
       name: config.model,
+      fallback: config.fallbackModel,
     },
     endpoints: {
       chat: '/chat',
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { BaseAgent } from './base-agent';
+import { createConfirmableTool, createTool } from './tool-builder';
+import { callTool, callTools, createAgentHarness, createScriptedModel, reply } from './testing';
+import type { ToolDefinition } from './types';
+
+class HarnessedAgent extends BaseAgent {}
+
+function createAgent(tools: ToolDefinition[]) {
+  return new HarnessedAgent({
+    name: 'test-agent',
+    version: '1.0.0',
+    description: 'Agent under test',
+    model: 'test-model',
+    systemPrompt: 'Test',
+    toolCategories: [{ name: 'test', description: 'Test tools', tools }],
+  });
+}
+
+const lookup = createTool({
+  name: 'lookup',
+  description: 'Look something up',
+  category: 'test',
+  parameters: { query: { type: 'string', description: 'Query', required: true } },
+  execute: async args => ({ found: args.query }),
+});
+
+const wipe = createConfirmableTool({
+  name: 'wipe',
+  description: 'Wipe everything',
+  category: 'test',
+  parameters: {},
+  execute: async () => ({ wiped: true }),
+});
+
+const admin = createTool({
+  name: 'admin',
+  description: 'Admin only',
+  category: 'test',
+  parameters: {},
+  requiredRoles: ['admin'],
+  execute: async () => ({}),
+});
+
+describe('createScriptedModel', () => {
+  it('replays steps in order and records requests', async () => {
+    const model = createScriptedModel([reply('one'), request => reply(`saw ${request.messages.length}`)]);
+    const request = { model: 'm', messages: [{ role: 'user' as const, content: 'hi' }], tools: [] };
+
+    expect(await model.chat(request, { env: {} })).toEqual({ content: 'one' });
+    expect(await model.chat(request, { env: {} })).toEqual({ content: 'saw 1' });
+    expect(model.requests).toHaveLength(2);
+    await expect(model.chat(request, { env: {} })).rejects.toThrow('Scripted model exhausted after 2 responses');
+  });
+});
+
+describe('createAgentHarness', () => {
+  it('asserts on executed tool calls and their arguments', async () => {
+    const harness = createAgentHarness(createAgent([lookup]), [
+      callTool('lookup', { query: 'disk usage' }),
+      reply('Found it'),
+    ]);
+
+    await harness.chat('Look up disk usage');
+
+    harness.expectToolCalled('lookup', { query: 'disk usage' });
+    expect(() => harness.expectToolCalled('lookup', { query: 'other' })).toThrow('to be called with');
+    expect(() => harness.expectToolNotCalled('lookup')).toThrow('it was called 1 time(s)');
+  });
+
+  it('does not count held, refused or invalid calls as called', async () => {
+    const harness = createAgentHarness(createAgent([lookup, wipe, admin]), [
+      callTools([{ name: 'lookup' }, { name: 'admin' }, { name: 'missing' }, { name: 'wipe' }]),
+    ]);
+
+    await harness.chat('Try everything');
+
+    for (const name of ['lookup', 'admin', 'missing', 'wipe']) {
+      harness.expectToolNotCalled(name);
+    }
+    expect(() => harness.expectToolCalled('wipe')).toThrow('wipe (pending_confirmation)');
+    expect(harness.toolCalls().map(span => span.outcome)).toEqual([
+      'invalid_arguments',
+      'forbidden',
+      'unknown_tool',
+      'pending_confirmation',
+    ]);
+  });
+
+  it('drives fetch handler routes against the fake KV', async () => {
+    const harness = createAgentHarness(createAgent([wipe]), [callTool('wipe')]);
+
+    const chat = await harness.request({ path: '/chat', body: { message: 'Wipe it' } });
+    const confirm = await harness.request({
+      path: '/confirm',
+      body: { token: chat.body.pendingConfirmation.token },
+    });
+
+    expect(confirm.body).toMatchObject({ confirmed: true, result: { wiped: true } });
+    harness.expectToolCalled('wipe');
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * @chittyos/core/agents/testing
+ *
+ * Helpers for testing BaseAgent subclasses in-process, without Workers:
+ * a scripted model, a fake KV namespace, tool call assertions and a
+ * request simulator for createFetchHandler routes.
+ *
+ * Usage:
+ *   const harness = createAgentHarness(new MyAgent(), [
+ *     callTool('scan_directory', { path: '/tmp' }),
+ *     reply('Found 3 large files'),
+ *   ]);
+ *   await harness.chat('What is taking up space in /tmp?');
+ *   harness.expectToolCalled('scan_directory', { path: '/tmp' });
+ */
+
+import type { BaseAgent, FetchHandlerOptions } from './base-agent';
+import type {
+  AgentContext,
+  AgentStreamEvent,
+  ChatResponse,
+  ModelProvider,
+  ModelRequest,
+  ModelResponse,
+} from './types';
+import { createMemoryKV, type KVLike } from './kv';
+import { createTracer, createMemorySink, type TraceSpan } from './tracing';
+
+export { createMemoryKV as createFakeKV } from './kv';
+
+// ============ Scripted Model ============
+
+export type ScriptStep = ModelResponse | ((request: ModelRequest) => ModelResponse);
+
+export interface ScriptedModel extends ModelProvider {
+  requests: ModelRequest[];
+  remaining(): number;
+}
+
+/**
+ * A model provider that replays a queue of assistant responses in order
+ */
+export function createScriptedModel(script: ScriptStep[]): ScriptedModel {
+  const queue = [...script];
+  const requests: ModelRequest[] = [];
+
+  return {
+    name: 'scripted',
+    requests,
+    remaining: () => queue.length,
+    async chat(request) {
+      requests.push(structuredClone(request));
+      const step = queue.shift();
+      if (!step) {
+        throw new Error(`Scripted model exhausted after ${requests.length - 1} responses`);
+      }
+      return typeof step === 'function' ? step(request) : step;
+    },
+  };
+}
+
+/**
+ * Script step: a final assistant reply
+ */
+export function reply(content: string): ModelResponse {
+  return { content };
+}
+
+/**
+ * Script step: call a single tool
+ */
+export function callTool(name: string, args: Record<string, any> = {}, id?: string): ModelResponse {
+  return callTools([{ name, args, id }]);
+}
+
+/**
+ * Script step: call several tools in one turn
+ */
+export function callTools(
+  calls: { name: string; args?: Record<string, any>; id?: string }[],
+  content = ''
+): ModelResponse {
+  return {
+    content,
+    toolCalls: calls.map((call, index) => ({
+      id: call.id ?? `call_${index + 1}_${call.name}`,
+      name: call.name,
+      arguments: call.args ?? {},
+    })),
+  };
+}
+
+// ============ Request Simulation ============
+
+export interface SimulatedRequest {
+  method?: string;
+  path: string;
+  body?: any;
+  headers?: Record<string, string>;
+  env?: Record<string, any>;
+  handlerOptions?: FetchHandlerOptions;
+}
+
+export interface SimulatedResponse {
+  status: number;
+  headers: Headers;
+  body: any;
+  events?: AgentStreamEvent[];
+}
+
+/**
+ * Drive a createFetchHandler route in-process. JSON bodies are parsed and
+ * SSE/NDJSON streams are collected into `events`.
+ */
+export async function simulateRequest(
+  agent: BaseAgent,
+  request: SimulatedRequest
+): Promise<SimulatedResponse> {
+  const handler = agent.createFetchHandler(request.handlerOptions);
+  const hasBody = request.body !== undefined;
+
+  const response = await handler(
+    new Request(`https://agent.test${request.path}`, {
+      method: request.method ?? (hasBody ? 'POST' : 'GET'),
+      headers: {
+        ...(hasBody && { 'Content-Type': 'application/json' }),
+        ...request.headers,
+      },
+      body: hasBody ? JSON.stringify(request.body) : undefined,
+    }),
+    request.env ?? {}
+  );
+
+  const contentType = response.headers.get('Content-Type') || '';
+  const text = await response.text();
+
+  if (contentType.includes('text/event-stream')) {
+    const events = text
+      .split('\n\n')
+      .map(frame => frame.split('\n').find(line => line.startsWith('data: ')))
+      .filter((line): line is string => !!line)
+      .map(line => JSON.parse(line.slice(6)));
+    return { status: response.status, headers: response.headers, body: events.at(-1), events };
+  }
+
+  if (contentType.includes('application/x-ndjson')) {
+    const events = text.split('\n').filter(Boolean).map(line => JSON.parse(line));
+    return { status: response.status, headers: response.headers, body: events.at(-1), events };
+  }
+
+  let body: any = text;
+  if (contentType.includes('application/json') && text) {
+    body = JSON.parse(text);
+  }
+
+  return { status: response.status, headers: response.headers, body };
+}
+
+// ============ Harness ============
+
+export interface AgentHarness {
+  agent: BaseAgent;
+  model: ScriptedModel;
+  kv: KVLike;
+  env: Record<string, any>;
+  spans: TraceSpan[];
+  chat(message: string, context?: Partial<AgentContext>): Promise<ChatResponse>;
+  request(request: Omit<SimulatedRequest, 'env'>): Promise<SimulatedResponse>;
+  /** Every tool span, including calls that never ran; see `span.outcome` */
+  toolCalls(name?: string): TraceSpan[];
+  /** Assert the tool actually executed (not just requested, refused or held) */
+  expectToolCalled(name: string, args?: Record<string, any>): void;
+  /** Assert the tool never executed */
+  expectToolNotCalled(name: string): void;
+}
+
+/**
+ * Wire an agent to a scripted model, fake KV and in-memory trace sink
+ */
+export function createAgentHarness(
+  agent: BaseAgent,
+  script: ScriptStep[] = [],
+  env: Record<string, any> = {}
+): AgentHarness {
+  const model = createScriptedModel(script);
+  const kv = createMemoryKV();
+  const sink = createMemorySink();
+  const harnessEnv = { KV: kv, ...env };
+
+  // Never redact in tests, so assertions see the real arguments
+  agent.configure({
+    modelProvider: model,
+    tracer: createTracer([sink], { secretPattern: /(?!)/ }),
+  });
+
+  const toolCalls = (name?: string) =>
+    sink.spans.filter(span => span.kind === 'tool' && (!name || span.name === name));
+  const executed = (name?: string) => toolCalls(name).filter(span => span.outcome === 'executed');
+
+  return {
+    agent,
+    model,
+    kv,
+    env: harnessEnv,
+    spans: sink.spans,
+
+    chat(message, context = {}) {
+      return agent.handleChat(message, { env: harnessEnv, kv, ...context });
+    },
+
+    request(request) {
+      return simulateRequest(agent, { ...request, env: harnessEnv });
+    },
+
+    toolCalls,
+
+    expectToolCalled(name, args) {
+      const calls = executed(name);
+      if (!calls.length) {
+        const called = toolCalls().map(span => `${span.name} (${span.outcome})`).join(', ') || 'none';
+        throw new Error(`Expected tool ${name} to be called; tools called: ${called}`);
+      }
+      if (args && !calls.some(span => matchesPartial(span.args, args))) {
+        throw new Error(
+          `Expected tool ${name} to be called with ${JSON.stringify(args)}; ` +
+          `got ${calls.map(span => JSON.stringify(span.args)).join(', ')}`
+        );
+      }
+    },
+
+    expectToolNotCalled(name) {
+      const calls = executed(name);
+      if (calls.length) {
+        throw new Error(`Expected tool ${name} not to be called; it was called ${calls.length} time(s)`);
+      }
+    },
+  };
+}
+
+/**
+ * Deep partial match: every key in `expected` must match in `actual`
+ */
+function matchesPartial(actual: any, expected: any): boolean {
+  if (expected && typeof expected === 'object') {
+    if (!actual || typeof actual !== 'object') return false;
+    if (Array.isArray(expected)) {
+      return Array.isArray(actual)
+        && actual.length === expected.length
+        && expected.every((item, index) => matchesPartial(actual[index], item));
+    }
+    return Object.entries(expected).every(([key, value]) => matchesPartial(actual[key], value));
+  }
+  return Object.is(actual, expected);
+}
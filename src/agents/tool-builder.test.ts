@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { createToolFromZod, params, toolParametersToJsonSchema } from './tool-builder';
+import { buildToolArgsSchema, validateToolArgs } from './validation';
+
+const recipients = params.arrayOf('Recipients', {
+  type: 'object',
+  properties: {
+    email: params.string('Email address', true),
+    name: params.string('Display name'),
+  },
+}, true);
+
+const options = params.object('Delivery options', {
+  priority: params.stringEnum('Priority', ['low', 'high'], true),
+});
+
+describe('nested tool parameters', () => {
+  it('renders required arrays at every nesting level', () => {
+    expect(toolParametersToJsonSchema({ recipients, options })).toEqual({
+      type: 'object',
+      properties: {
+        recipients: {
+          type: 'array',
+          description: 'Recipients',
+          items: {
+            type: 'object',
+            properties: {
+              email: { type: 'string', description: 'Email address' },
+              name: { type: 'string', description: 'Display name' },
+            },
+            required: ['email'],
+          },
+        },
+        options: {
+          type: 'object',
+          description: 'Delivery options',
+          properties: { priority: { type: 'string', description: 'Priority', enum: ['low', 'high'] } },
+          required: ['priority'],
+        },
+      },
+      required: ['recipients'],
+    });
+  });
+
+  it('validates array items and nested objects', () => {
+    const schema = buildToolArgsSchema({ recipients, options });
+
+    expect(schema.safeParse({ recipients: [{ email: 'a@chitty.cc' }] }).success).toBe(true);
+    expect(schema.safeParse({ recipients: [{ name: 'No email' }] }).success).toBe(false);
+    expect(schema.safeParse({ recipients: [], options: {} }).success).toBe(false);
+  });
+});
+
+describe('createToolFromZod', () => {
+  const tagRecord = createToolFromZod({
+    name: 'tag_record',
+    description: 'Tag a canonical record',
+    category: 'canon',
+    schema: z.object({
+      canonId: z.string().describe('Canon ID'),
+      tags: z.array(z.string()).describe('Tags'),
+      limit: z.number().int().min(1).default(10),
+      note: z.string().optional(),
+    }),
+    execute: async ({ canonId, tags, limit }) => ({ canonId, tags, limit }),
+  });
+
+  it('derives parameters from the schema', () => {
+    expect(tagRecord.parameters).toEqual({
+      canonId: { type: 'string', description: 'Canon ID', required: true },
+      tags: { type: 'array', description: 'Tags', items: { type: 'string' }, required: true },
+      limit: { type: 'number', description: '', minimum: 1, default: 10, required: false },
+      note: { type: 'string', description: '', required: false },
+    });
+  });
+
+  it('validates with the zod schema itself', () => {
+    expect(validateToolArgs(tagRecord, { canonId: 'c1', tags: ['a'] })).toEqual({
+      success: true,
+      data: { canonId: 'c1', tags: ['a'], limit: 10 },
+    });
+    expect(validateToolArgs(tagRecord, { canonId: 'c1', tags: ['a'], limit: 1.5 }).success).toBe(false);
+  });
+});
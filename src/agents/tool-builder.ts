@@ -17,7 +17,16 @@
  *   });
  */
 
-import type { ToolDefinition, ToolParameter, AgentContext, ToolCategory } from './types';
+import { z } from 'zod';
+import type {
+  AgentContext,
+  ToolDefinition,
+  ToolParameter,
+  ToolSchema,
+  ToolCategory,
+  FunctionToolDefinition,
+} from './types';
+import { createJobStore } from './jobs';
 
 /**
  * Create a tool definition with type checking
@@ -30,10 +39,11 @@ export function createTool(definition: ToolDefinition): ToolDefinition {
 }
 
 /**
- * Create a tool that requires human confirmation (no auto-execute)
+ * Create a tool that requires human confirmation (no auto-execute).
+ * `execute`, if given, only runs once the call is approved via confirmTool.
  */
 export function createConfirmableTool(
-  definition: Omit<ToolDefinition, 'execute' | 'requiresConfirmation'>
+  definition: Omit<ToolDefinition, 'requiresConfirmation'>
 ): ToolDefinition {
   return {
     ...definition,
@@ -41,6 +51,82 @@ export function createConfirmableTool(
   };
 }
 
+/**
+ * Create a tool from a zod object schema. Parameters are derived from the
+ * schema, and `execute` receives the parsed, fully typed arguments.
+ *
+ * Usage:
+ *   const tagTool = createToolFromZod({
+ *     name: 'tag_record',
+ *     description: 'Tag a canonical record',
+ *     category: 'canon',
+ *     schema: z.object({ canonId: z.string(), tags: z.array(z.string()) }),
+ *     execute: async ({ canonId, tags }) => ({ canonId, tags }),
+ *   });
+ */
+export function createToolFromZod<S extends z.ZodObject>(definition: {
+  name: string;
+  description: string;
+  category: string;
+  schema: S;
+  requiresConfirmation?: boolean;
+  execute?: (args: z.output<S>, context: AgentContext) => Promise<any>;
+}): ToolDefinition {
+  const { schema, execute, ...rest } = definition;
+  const jsonSchema = z.toJSONSchema(schema, { io: 'input', unrepresentable: 'any' }) as Record<string, any>;
+
+  return createTool({
+    ...rest,
+    parameters: jsonSchemaToToolParameters(jsonSchema),
+    argsSchema: schema,
+    execute: execute && ((args, context) => execute(args as z.output<S>, context)),
+  });
+}
+
+function jsonSchemaToToolParameters(json: Record<string, any>): Record<string, ToolParameter> {
+  const required: string[] = json.required ?? [];
+
+  return Object.fromEntries(
+    Object.entries<Record<string, any>>(json.properties ?? {}).map(([name, property]) => [
+      name,
+      {
+        ...jsonSchemaToToolSchema(property),
+        description: property.description ?? '',
+        required: required.includes(name),
+      },
+    ])
+  );
+}
+
+function jsonSchemaToToolSchema(json: Record<string, any>): ToolSchema {
+  // Unwrap optional/nullable unions to their first concrete branch
+  const variant = json.anyOf ?? json.oneOf;
+  if (variant && !json.type) {
+    const concrete = variant.find((v: any) => v.type && v.type !== 'null') ?? {};
+    return jsonSchemaToToolSchema({ ...concrete, description: json.description, default: json.default });
+  }
+
+  const type = json.type === 'integer' ? 'number' : json.type;
+  const schema: ToolSchema = {
+    type: ['string', 'number', 'boolean', 'array', 'object'].includes(type) ? type : 'string',
+  };
+
+  if (json.description) schema.description = json.description;
+  if (json.enum) schema.enum = json.enum.map(String);
+  if (json.const !== undefined) schema.enum = [String(json.const)];
+  if (json.default !== undefined) schema.default = json.default;
+  // zod emits safe-integer bounds for .int() and a regex alongside formats;
+  // both are noise in a model prompt
+  if (json.minimum !== undefined && json.minimum > Number.MIN_SAFE_INTEGER) schema.minimum = json.minimum;
+  if (json.maximum !== undefined && json.maximum < Number.MAX_SAFE_INTEGER) schema.maximum = json.maximum;
+  if (json.format) schema.format = json.format;
+  else if (json.pattern) schema.pattern = json.pattern;
+  if (json.items) schema.items = jsonSchemaToToolSchema(json.items);
+  if (json.properties) schema.properties = jsonSchemaToToolParameters(json);
+
+  return schema;
+}
+
 /**
  * Create a tool category with multiple tools
  */
@@ -81,13 +167,31 @@ export const params = {
     required,
   }),
 
-  array: (description: string, itemType: string, required = false): ToolParameter => ({
+  array: (description: string, itemType: ToolSchema['type'], required = false): ToolParameter => ({
     type: 'array',
     description,
     items: { type: itemType },
     required,
   }),
 
+  object: (
+    description: string,
+    properties: Record<string, ToolParameter>,
+    required = false
+  ): ToolParameter => ({
+    type: 'object',
+    description,
+    properties,
+    required,
+  }),
+
+  arrayOf: (description: string, items: ToolSchema, required = false): ToolParameter => ({
+    type: 'array',
+    description,
+    items,
+    required,
+  }),
+
   path: (description = 'File or directory path'): ToolParameter => ({
     type: 'string',
     description,
@@ -101,6 +205,43 @@ export const params = {
   }),
 };
 
+/**
+ * Render tool parameters as a JSON Schema object. Per-parameter `required`
+ * flags become `required` arrays at each nesting level.
+ */
+export function toolParametersToJsonSchema(
+  parameters: Record<string, ToolParameter>
+): FunctionToolDefinition['function']['parameters'] {
+  return {
+    type: 'object',
+    properties: Object.fromEntries(
+      Object.entries(parameters).map(([name, param]) => [name, toolSchemaToJsonSchema(param)])
+    ),
+    required: Object.entries(parameters)
+      .filter(([_, p]) => p.required)
+      .map(([name]) => name),
+  };
+}
+
+function toolSchemaToJsonSchema(schema: ToolSchema): Record<string, any> {
+  const { required: _required, items, properties, ...rest } = schema as ToolParameter;
+  const json: Record<string, any> = { ...rest };
+
+  if (items) {
+    json.items = toolSchemaToJsonSchema(items);
+  }
+
+  if (properties) {
+    const nested = toolParametersToJsonSchema(properties);
+    json.properties = nested.properties;
+    if (nested.required.length) {
+      json.required = nested.required;
+    }
+  }
+
+  return json;
+}
+
 /**
  * Job queue helper for tools that queue work for external execution
  */
@@ -130,16 +271,6 @@ export async function queueJob(
   args: Record<string, any>,
   ttlSeconds = 86400
 ): Promise<string> {
-  const jobId = crypto.randomUUID();
-  await kv.put(
-    `job:${jobId}`,
-    JSON.stringify({
-      type,
-      args,
-      status: 'pending',
-      createdAt: new Date().toISOString(),
-    }),
-    { expirationTtl: ttlSeconds }
-  );
-  return jobId;
+  const job = await createJobStore(kv, { ttlSeconds }).enqueue(type, args);
+  return job.jobId;
 }
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createAuditSink,
+  createMemorySink,
+  createTracer,
+  redactSecrets,
+  verifyAuditTrail,
+  type TraceSpan,
+} from './tracing';
+import { createMemoryKV } from './kv';
+import { BaseAgent } from './base-agent';
+import { createConfirmableTool } from './tool-builder';
+import { callTools, createScriptedModel } from './testing';
+
+const destructiveSpan = (name: string): TraceSpan => ({
+  traceId: 't1',
+  spanId: name,
+  kind: 'tool',
+  name,
+  agent: 'test-agent',
+  startedAt: new Date().toISOString(),
+  durationMs: 1,
+  destructive: true,
+  outcome: 'executed',
+});
+
+describe('redactSecrets', () => {
+  it('redacts secret-looking keys at any depth', () => {
+    expect(redactSecrets({ user: 'a', apiKey: 'k', nested: [{ password: 'p', path: '/x' }] })).toEqual({
+      user: 'a',
+      apiKey: '[REDACTED]',
+      nested: [{ password: '[REDACTED]', path: '/x' }],
+    });
+  });
+});
+
+describe('createTracer', () => {
+  it('redacts arguments before they reach sinks', async () => {
+    const sink = createMemorySink();
+    const tracer = createTracer([sink]);
+
+    await tracer.startSpan({
+      kind: 'tool',
+      name: 'login',
+      agent: 'test-agent',
+      context: { env: {}, traceId: 'trace-1' },
+      args: { token: 'abc' },
+    }).end({ result: { ok: true }, outcome: 'executed' });
+
+    expect(sink.spans[0]).toMatchObject({ traceId: 'trace-1', args: { token: '[REDACTED]' }, outcome: 'executed' });
+  });
+});
+
+describe('createAuditSink', () => {
+  it('keeps every entry when destructive calls finish concurrently', async () => {
+    const kv = createMemoryKV();
+    const sink = createAuditSink(kv);
+
+    await Promise.all(['a', 'b', 'c'].map(name => sink.record(destructiveSpan(name))));
+
+    expect(await verifyAuditTrail(kv)).toEqual({ valid: true, entries: 3 });
+  });
+
+  it('ignores model and non-destructive spans', async () => {
+    const kv = createMemoryKV();
+    const sink = createAuditSink(kv);
+
+    await sink.record({ ...destructiveSpan('read'), destructive: false });
+    await sink.record({ ...destructiveSpan('chat'), kind: 'model' });
+
+    expect(await verifyAuditTrail(kv)).toEqual({ valid: true, entries: 0 });
+  });
+
+  it('detects an edited entry', async () => {
+    const kv = createMemoryKV();
+    const sink = createAuditSink(kv);
+    await sink.record(destructiveSpan('a'));
+    await sink.record(destructiveSpan('b'));
+
+    const key = 'audit:000000000001';
+    const entry = JSON.parse((await kv.get(key))!);
+    entry.span.name = 'harmless';
+    await kv.put(key, JSON.stringify(entry));
+
+    expect(await verifyAuditTrail(kv)).toMatchObject({ valid: false, brokenAt: 1, error: 'Entry hash mismatch' });
+  });
+
+  it('records held, skipped and rejected destructive calls', async () => {
+    class AuditedAgent extends BaseAgent {}
+    const kv = createMemoryKV();
+    const remove = (name: string) => createConfirmableTool({
+      name,
+      description: `Remove ${name}`,
+      category: 'test',
+      parameters: {},
+      execute: async () => ({ removed: name }),
+    });
+    const agent = new AuditedAgent({
+      name: 'test-agent',
+      version: '1.0.0',
+      description: 'Agent under test',
+      model: 'test-model',
+      systemPrompt: 'Test',
+      toolCategories: [{ name: 'test', description: 'Test tools', tools: [remove('first'), remove('second')] }],
+    }, {
+      modelProvider: createScriptedModel([callTools([{ name: 'first' }, { name: 'second' }])]),
+      tracer: createTracer([createAuditSink(kv)]),
+    });
+    const context = { env: {}, kv, userId: 'alice' };
+
+    const result = await agent.runConversation('Remove both', context);
+    await agent.rejectTool(result.pendingConfirmation!.token!, context);
+
+    const entries = await Promise.all([1, 2, 3].map(async sequence =>
+      JSON.parse((await kv.get(`audit:${String(sequence).padStart(12, '0')}`))!).span as TraceSpan
+    ));
+    expect(entries.map(span => [span.name, span.outcome])).toEqual([
+      ['first', 'pending_confirmation'],
+      ['second', 'skipped'],
+      ['first', 'rejected'],
+    ]);
+    expect(await verifyAuditTrail(kv)).toEqual({ valid: true, entries: 3 });
+  });
+});
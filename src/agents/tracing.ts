@@ -0,0 +1,277 @@
+/**
+ * ChittyOS Agent Tracing
+ *
+ * Spans for model calls and tool calls, delivered to pluggable sinks.
+ * Arguments are redacted before they reach any sink. Destructive tool calls,
+ * including ones that were held, skipped or refused, can additionally be
+ * written to a hash-chained audit trail in KV, where editing or removing an
+ * entry breaks every hash after it.
+ *
+ * Usage:
+ *   const tracer = createTracer([createConsoleSink(), createAuditSink(env.KV)]);
+ *   class MyAgent extends BaseAgent {
+ *     constructor() {
+ *       super(myAgentConfig, { tracer });
+ *     }
+ *   }
+ */
+
+import type { AgentContext } from './types';
+import type { KVLike } from './kv';
+
+/**
+ * What happened to a tool call. Only `executed` calls reached the tool's
+ * execute function, which may still have failed or timed out.
+ */
+export type ToolCallOutcome =
+  | 'executed'
+  | 'pending_confirmation'
+  | 'rejected'
+  | 'skipped'
+  | 'forbidden'
+  | 'rate_limited'
+  | 'invalid_arguments'
+  | 'unknown_tool';
+
+export interface TraceSpan {
+  traceId: string;
+  spanId: string;
+  kind: 'model' | 'tool';
+  name: string;
+  agent: string;
+  sessionId?: string;
+  userId?: string;
+  startedAt: string;
+  durationMs: number;
+  args?: Record<string, any>;
+  resultSize?: number;
+  error?: string;
+  destructive?: boolean;
+  /** Set on tool spans */
+  outcome?: ToolCallOutcome;
+}
+
+export interface TraceSink {
+  record(span: TraceSpan): void | Promise<void>;
+}
+
+export interface ActiveSpan {
+  end(details?: {
+    result?: any;
+    error?: unknown;
+    destructive?: boolean;
+    outcome?: ToolCallOutcome;
+  }): Promise<void>;
+}
+
+export interface Tracer {
+  startSpan(init: {
+    kind: TraceSpan['kind'];
+    name: string;
+    agent: string;
+    context: AgentContext;
+    args?: Record<string, any>;
+  }): ActiveSpan;
+}
+
+export interface AuditEntry {
+  sequence: number;
+  span: TraceSpan;
+  previousHash: string;
+  hash: string;
+}
+
+const DEFAULT_SECRET_PATTERN = /pass(word)?|secret|token|api[-_]?key|auth|credential|private[-_]?key/i;
+const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Replace values whose keys look like secrets with `[REDACTED]`, recursively
+ */
+export function redactSecrets(value: any, pattern: RegExp = DEFAULT_SECRET_PATTERN): any {
+  if (Array.isArray(value)) {
+    return value.map(item => redactSecrets(item, pattern));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, inner]) => [
+        key,
+        pattern.test(key) ? '[REDACTED]' : redactSecrets(inner, pattern),
+      ])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Create a tracer that fans completed spans out to the given sinks.
+ * Sink failures are logged and never interrupt the agent.
+ */
+export function createTracer(
+  sinks: TraceSink[],
+  options: { secretPattern?: RegExp } = {}
+): Tracer {
+  return {
+    startSpan(init) {
+      const started = Date.now();
+
+      return {
+        async end(details = {}) {
+          const error = details.error !== undefined
+            ? (details.error instanceof Error ? details.error.message : String(details.error))
+            : details.result?.error;
+
+          const span: TraceSpan = {
+            traceId: init.context.traceId ?? crypto.randomUUID(),
+            spanId: crypto.randomUUID(),
+            kind: init.kind,
+            name: init.name,
+            agent: init.agent,
+            sessionId: init.context.sessionId,
+            userId: init.context.userId,
+            startedAt: new Date(started).toISOString(),
+            durationMs: Date.now() - started,
+            args: init.args && redactSecrets(init.args, options.secretPattern),
+            resultSize: details.result === undefined ? undefined : JSON.stringify(details.result)?.length ?? 0,
+            error,
+            destructive: details.destructive,
+            outcome: details.outcome,
+          };
+
+          await Promise.all(sinks.map(async sink => {
+            try {
+              await sink.record(span);
+            } catch (sinkError) {
+              console.error('[Agent] Trace sink failed:', sinkError);
+            }
+          }));
+        },
+      };
+    },
+  };
+}
+
+// ============ Sinks ============
+
+/**
+ * Log spans to the console
+ */
+export function createConsoleSink(): TraceSink {
+  return {
+    record(span) {
+      const status = span.error
+        ? `error: ${span.error}`
+        : span.outcome && span.outcome !== 'executed' ? span.outcome : 'ok';
+      console.log(`[Agent] ${span.agent} ${span.kind}:${span.name} ${span.durationMs}ms ${status}`);
+    },
+  };
+}
+
+/**
+ * Keep spans in memory, e.g. for tests or a debug endpoint
+ */
+export function createMemorySink(): TraceSink & { spans: TraceSpan[]; clear(): void } {
+  const spans: TraceSpan[] = [];
+  return {
+    spans,
+    record(span) {
+      spans.push(span);
+    },
+    clear() {
+      spans.length = 0;
+    },
+  };
+}
+
+/**
+ * Send spans to beacon.chitty.cc via `beacon.sendBeacon`
+ */
+export function createBeaconSink(event = 'agent_span'): TraceSink {
+  return {
+    async record(span) {
+      const { sendBeacon } = await import('../beacon');
+      await sendBeacon(event, { span });
+    },
+  };
+}
+
+/**
+ * Append destructive tool spans, whatever their outcome, to a hash-chained
+ * audit trail in KV. Each entry's hash covers its span and the previous
+ * entry's hash.
+ *
+ * Appends are serialized within the sink, so concurrent tool calls cannot
+ * claim the same sequence. KV has no compare-and-swap, so every writer of a
+ * trail must share one sink (one per isolate and prefix).
+ */
+export function createAuditSink(kv: KVLike, options: { prefix?: string } = {}): TraceSink {
+  const prefix = options.prefix ?? 'audit:';
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const exclusive = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = queue.then(task, task);
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  return {
+    record(span) {
+      if (span.kind !== 'tool' || !span.destructive) return;
+
+      return exclusive(async () => {
+        const head = JSON.parse(await kv.get(`${prefix}head`) ?? 'null') as
+          { sequence: number; hash: string } | null;
+        const sequence = (head?.sequence ?? 0) + 1;
+        const previousHash = head?.hash ?? GENESIS_HASH;
+        const hash = await auditHash(sequence, span, previousHash);
+
+        const entry: AuditEntry = { sequence, span, previousHash, hash };
+        await kv.put(`${prefix}${String(sequence).padStart(12, '0')}`, JSON.stringify(entry));
+        await kv.put(`${prefix}head`, JSON.stringify({ sequence, hash }));
+      });
+    },
+  };
+}
+
+/**
+ * Walk the audit trail and report the first entry whose hash or link is broken
+ */
+export async function verifyAuditTrail(
+  kv: KVLike,
+  options: { prefix?: string } = {}
+): Promise<{ valid: boolean; entries: number; brokenAt?: number; error?: string }> {
+  const prefix = options.prefix ?? 'audit:';
+  const head = JSON.parse(await kv.get(`${prefix}head`) ?? 'null') as
+    { sequence: number; hash: string } | null;
+
+  let previousHash = GENESIS_HASH;
+  for (let sequence = 1; sequence <= (head?.sequence ?? 0); sequence++) {
+    const raw = await kv.get(`${prefix}${String(sequence).padStart(12, '0')}`);
+    if (!raw) {
+      return { valid: false, entries: sequence - 1, brokenAt: sequence, error: 'Missing entry' };
+    }
+
+    const entry = JSON.parse(raw) as AuditEntry;
+    if (entry.previousHash !== previousHash) {
+      return { valid: false, entries: sequence - 1, brokenAt: sequence, error: 'Previous hash mismatch' };
+    }
+    if (entry.hash !== await auditHash(entry.sequence, entry.span, entry.previousHash)) {
+      return { valid: false, entries: sequence - 1, brokenAt: sequence, error: 'Entry hash mismatch' };
+    }
+
+    previousHash = entry.hash;
+  }
+
+  if (head && head.hash !== previousHash) {
+    return { valid: false, entries: head.sequence, brokenAt: head.sequence, error: 'Head hash mismatch' };
+  }
+
+  return { valid: true, entries: head?.sequence ?? 0 };
+}
+
+async function auditHash(sequence: number, span: TraceSpan, previousHash: string): Promise<string> {
+  const bytes = new TextEncoder().encode(JSON.stringify({ sequence, span, previousHash }));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
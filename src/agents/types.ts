@@ -4,32 +4,83 @@
  * Shared type definitions for all ChittyOS AI agents.
  */
 
+import type { ZodType } from 'zod';
+import type { AuthUser } from '../auth';
+
 // ============ Tool Types ============
 
-export interface ToolParameter {
+export interface ToolSchema {
   type: 'string' | 'number' | 'boolean' | 'array' | 'object';
-  description: string;
-  required?: boolean;
+  description?: string;
   enum?: string[];
-  items?: { type: string };
+  items?: ToolSchema;
+  properties?: Record<string, ToolParameter>;
+  minimum?: number;
+  maximum?: number;
+  pattern?: string;
+  format?: string;
   default?: any;
 }
 
+export interface ToolParameter extends ToolSchema {
+  description: string;
+  required?: boolean;
+}
+
 export interface ToolDefinition {
   name: string;
   description: string;
   category: string;
   parameters: Record<string, ToolParameter>;
+  argsSchema?: ZodType;
   requiresConfirmation?: boolean;
+  requiredRoles?: string[];
+  requiredPermissions?: string[];
+  timeoutMs?: number;
+  /** Extra attempts after a failure or timeout; only honored when `idempotent` */
+  retries?: number;
+  /** Delay before the first retry, doubled for each further attempt (default 250ms) */
+  retryDelayMs?: number;
+  idempotent?: boolean;
+  /** Per-caller limit on calls to this tool */
+  rateLimit?: RateLimitRule;
   execute?: (args: Record<string, any>, context: AgentContext) => Promise<any>;
 }
 
+export interface McpToolDefinition {
+  name: string;
+  title?: string;
+  description: string;
+  inputSchema: FunctionToolDefinition['function']['parameters'];
+  annotations?: {
+    readOnlyHint?: boolean;
+    destructiveHint?: boolean;
+    idempotentHint?: boolean;
+  };
+}
+
+export interface FunctionToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: {
+      type: 'object';
+      properties: Record<string, any>;
+      required: string[];
+    };
+  };
+}
+
 export interface ToolResult {
   success: boolean;
   data?: any;
   error?: string;
   jobId?: string;
   note?: string;
+  code?: 'invalid_arguments' | 'forbidden' | 'timeout' | 'failed' | 'rate_limited';
+  attempts?: number;
+  issues?: { path: string; message: string }[];
 }
 
 // ============ Agent Types ============
@@ -39,9 +90,13 @@ export interface AgentConfig {
   version: string;
   description: string;
   model: string;
+  provider?: ModelProviderName;
+  fallbackModel?: string;
   systemPrompt: string;
   toolCategories: ToolCategory[];
   settings?: AgentSettings;
+  /** Registry details; when set the agent serves its manifest at `/manifest` */
+  manifest?: AgentManifestOptions;
 }
 
 export interface ToolCategory {
@@ -55,6 +110,33 @@ export interface AgentSettings {
   temperature?: number;
   confirmDestructive?: boolean;
   dryRunDefault?: boolean;
+  sessionTtlSeconds?: number;
+  maxHistoryMessages?: number;
+  maxHistoryTokens?: number;
+  confirmationTtlSeconds?: number;
+  toolConcurrency?: number;
+  toolTimeoutMs?: number;
+  /** Token budget for system prompt, tool schemas and history; enables relevance-ranked tool categories */
+  maxContextTokens?: number;
+  /** Summarize history that exceeds the budget instead of dropping it */
+  summarizeHistory?: boolean;
+  /**
+   * Request limits for `/chat`, `/mcp`, `/confirm` and `/reject`. Anonymous
+   * callers are also limited per client IP, by the `user` rule (or `session`).
+   */
+  rateLimits?: {
+    session?: RateLimitRule;
+    user?: RateLimitRule;
+  };
+  /** Model calls allowed per user (or session) per UTC day */
+  dailyModelCalls?: number;
+}
+
+export interface RateLimitRule {
+  limit: number;
+  windowSeconds: number;
+  /** Defaults to `token-bucket`: bursts up to `limit`, refilled over `windowSeconds` */
+  algorithm?: 'token-bucket' | 'sliding-window';
 }
 
 export interface AgentContext {
@@ -63,6 +145,16 @@ export interface AgentContext {
   ai?: any; // Ai binding from Cloudflare Workers AI
   sessionId?: string;
   userId?: string;
+  user?: AuthUser;
+  /** Client address (`CF-Connecting-IP`), used to rate limit anonymous callers */
+  clientIp?: string;
+  traceId?: string;
+  /** Number of agent-to-agent hops that led to this request */
+  delegationDepth?: number;
+  /** Names of the agents that delegated to this one, outermost first */
+  delegationChain?: string[];
+  /** Set on tool calls; aborted when the call times out so the tool can stop its work */
+  signal?: AbortSignal;
 }
 
 export interface ChatMessage {
@@ -81,14 +173,65 @@ export interface ToolCall {
 export interface ChatResponse {
   success: boolean;
   response: string;
+  sessionId?: string;
   toolsUsed?: string[];
   pendingConfirmation?: PendingConfirmation;
+  dryRun?: DryRunReport;
+}
+
+export interface DryRunReport {
+  wouldDo: { tool: string; args: Record<string, any>; result: any }[];
+  did: { tool: string; args: Record<string, any>; result: any }[];
 }
 
 export interface PendingConfirmation {
   toolName: string;
   toolArgs: Record<string, any>;
   message: string;
+  token?: string;
+  toolCallId?: string;
+  sessionId?: string;
+  userId?: string;
+  createdAt?: string;
+  expiresAt?: string;
+}
+
+// ============ Model Types ============
+
+export type ModelProviderName = 'workers-ai' | 'chittyserv' | 'openai' | 'anthropic';
+
+export interface ModelRequest {
+  model: string;
+  messages: ChatMessage[];
+  tools: FunctionToolDefinition[];
+  temperature?: number;
+}
+
+export interface ModelResponse {
+  content: string;
+  toolCalls?: ToolCall[];
+}
+
+export type ModelStreamChunk =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; response: ModelResponse };
+
+export interface ModelProvider {
+  name: string;
+  chat(request: ModelRequest, context: AgentContext): Promise<ModelResponse>;
+  stream?(request: ModelRequest, context: AgentContext): AsyncIterable<ModelStreamChunk>;
+}
+
+export type AgentStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'tool_start'; toolCallId: string; name: string; args: Record<string, any> }
+  | { type: 'tool_finish'; toolCallId: string; name: string; result: any }
+  | { type: 'done'; response: ChatResponse }
+  | { type: 'error'; message: string };
+
+export interface ConversationOptions {
+  provider?: ModelProvider;
+  history?: ChatMessage[];
 }
 
 // ============ Agent Manifest ============
@@ -107,7 +250,7 @@ export interface AgentManifest {
     toolCount: number;
   }[];
   model: {
-    provider: 'workers-ai' | 'chittyserv' | 'openai' | 'anthropic';
+    provider: ModelProviderName;
     name: string;
     fallback?: string;
   };
@@ -120,10 +263,21 @@ export interface AgentManifest {
   repository: string;
 }
 
+export interface AgentManifestOptions {
+  tier: number;
+  category: AgentManifest['category'];
+  domain?: string;
+  status?: AgentManifest['status'];
+  maintainer: string;
+  repository: string;
+}
+
 // ============ KV/State Types ============
 
 export interface AgentState {
   sessionId: string;
+  /** User the session belongs to; absent for anonymous sessions */
+  userId?: string;
   messages: ChatMessage[];
   context: Record<string, any>;
   createdAt: string;
@@ -136,7 +290,18 @@ export interface JobQueue {
   args: Record<string, any>;
   status: 'pending' | 'running' | 'completed' | 'failed';
   createdAt: string;
+  updatedAt?: string;
   completedAt?: string;
+  attempts?: number;
+  maxAttempts?: number;
+  availableAt?: string;
+  claimedBy?: string;
+  leaseExpiresAt?: string;
+  progress?: {
+    percent?: number;
+    message?: string;
+    updatedAt: string;
+  };
   result?: any;
   error?: string;
 }
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { validateToolArgs } from './validation';
+import { createTool } from './tool-builder';
+
+const tool = createTool({
+  name: 'scan_directory',
+  description: 'Scan a directory',
+  category: 'test',
+  parameters: {
+    path: { type: 'string', description: 'Directory', required: true },
+    depth: { type: 'number', description: 'Depth', minimum: 1, maximum: 5, default: 2 },
+    mode: { type: 'string', description: 'Mode', enum: ['fast', 'full'] },
+    owner: { type: 'string', description: 'Owner email', format: 'email' },
+  },
+});
+
+describe('validateToolArgs', () => {
+  it('fills defaults for valid arguments', () => {
+    expect(validateToolArgs(tool, { path: '/tmp' })).toEqual({
+      success: true,
+      data: { path: '/tmp', depth: 2 },
+    });
+  });
+
+  it('reports each issue with its path', () => {
+    const result = validateToolArgs(tool, { depth: 9, mode: 'slow', owner: 'nobody' });
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.issues.map(issue => issue.path).sort()).toEqual(['depth', 'mode', 'owner', 'path']);
+  });
+
+  it('treats missing arguments as an empty object', () => {
+    const result = validateToolArgs(tool, undefined);
+
+    expect(result).toMatchObject({ success: false, issues: [{ path: 'path' }] });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * ChittyOS Tool Argument Validation
+ *
+ * Builds zod schemas from `ToolParameter` definitions so model-produced
+ * arguments are checked (and defaults filled) before a tool executes.
+ */
+
+import { z } from 'zod';
+import type { ToolDefinition, ToolParameter, ToolSchema } from './types';
+
+export interface ToolArgumentIssue {
+  path: string;
+  message: string;
+}
+
+export type ToolArgsValidation =
+  | { success: true; data: Record<string, any> }
+  | { success: false; issues: ToolArgumentIssue[] };
+
+const schemaCache = new WeakMap<ToolDefinition, z.ZodType>();
+
+/**
+ * Convert a single tool parameter (or nested schema) into a zod schema
+ */
+export function toolParameterToZod(param: ToolSchema & { required?: boolean }): z.ZodType {
+  let schema: z.ZodType;
+
+  switch (param.type) {
+    case 'string':
+      schema = param.enum?.length
+        ? z.enum(param.enum as [string, ...string[]])
+        : stringSchema(param);
+      break;
+    case 'number': {
+      let number = z.number();
+      if (param.minimum !== undefined) number = number.min(param.minimum);
+      if (param.maximum !== undefined) number = number.max(param.maximum);
+      schema = number;
+      break;
+    }
+    case 'boolean':
+      schema = z.boolean();
+      break;
+    case 'array':
+      schema = z.array(param.items ? toolParameterToZod({ ...param.items, required: true }) : z.any());
+      break;
+    case 'object':
+      schema = param.properties
+        ? buildToolArgsSchema(param.properties)
+        : z.record(z.string(), z.any());
+      break;
+    default:
+      schema = z.any();
+  }
+
+  if (param.default !== undefined) {
+    return schema.default(param.default);
+  }
+
+  return param.required ? schema : schema.optional();
+}
+
+function stringSchema(param: ToolSchema): z.ZodType {
+  let schema = z.string();
+
+  if (param.pattern) {
+    schema = schema.regex(new RegExp(param.pattern));
+  }
+
+  switch (param.format) {
+    case 'email':
+      return schema.pipe(z.email());
+    case 'uri':
+    case 'url':
+      return schema.pipe(z.url());
+    case 'uuid':
+      return schema.pipe(z.uuid());
+    case 'date-time':
+      return schema.pipe(z.iso.datetime());
+    case 'date':
+      return schema.pipe(z.iso.date());
+    default:
+      return schema;
+  }
+}
+
+/**
+ * Build an object schema for a tool's parameters
+ */
+export function buildToolArgsSchema(parameters: Record<string, ToolParameter>): z.ZodObject {
+  const shape: Record<string, z.ZodType> = {};
+  for (const [name, param] of Object.entries(parameters)) {
+    shape[name] = toolParameterToZod(param);
+  }
+  return z.object(shape);
+}
+
+/**
+ * Validate tool call arguments, returning default-filled data or issues
+ * phrased so the model can correct its call. Tools built from zod use their
+ * own `argsSchema`; others get one derived from `parameters`.
+ */
+export function validateToolArgs(
+  tool: ToolDefinition,
+  args: Record<string, any> | undefined
+): ToolArgsValidation {
+  let schema = tool.argsSchema ?? schemaCache.get(tool);
+  if (!schema) {
+    schema = buildToolArgsSchema(tool.parameters);
+    schemaCache.set(tool, schema);
+  }
+
+  const result = schema.safeParse(args ?? {});
+
+  if (result.success) {
+    return { success: true, data: result.data as Record<string, any> };
+  }
+
+  return {
+    success: false,
+    issues: result.error.issues.map(issue => ({
+      path: issue.path.join('.') || '(root)',
+      message: issue.message,
+    })),
+  };
+}
@@ -0,0 +1,223 @@
+/**
+ * ChittyOS Canon - Storage adapter conformance suite
+ * Runner-agnostic checks that any CanonStorageAdapter can be held to.
+ * Wrap the report in your own test framework:
+ *
+ *   it('conforms to CanonStorageAdapter', async () => {
+ *     const report = await runCanonAdapterConformance(() => createMyAdapter())
+ *     expect(report.failures).toEqual([])
+ *   })
+ */
+
+import type { CanonicalRecord, CanonStorageAdapter } from './index'
+
+export interface CanonConformanceOptions {
+  /**
+   * Open a second adapter over the same storage as `adapter`, to check that
+   * writes survive a restart. Skipped when omitted.
+   */
+  reopen?: (adapter: CanonStorageAdapter) => CanonStorageAdapter | Promise<CanonStorageAdapter>
+}
+
+export interface CanonConformanceReport {
+  passed: boolean
+  results: { name: string; passed: boolean; skipped?: boolean; error?: string }[]
+  failures: string[]
+}
+
+type Check = (adapter: CanonStorageAdapter, options: CanonConformanceOptions) => Promise<void | 'skipped'>
+
+const checks: Record<string, Check> = {
+  'get returns null for an unknown record': async adapter => {
+    assertEqual(await adapter.get('CANON_missing'), null, 'get')
+  },
+
+  'get returns a stored record unchanged': async adapter => {
+    const record = fixture('CANON_roundtrip', 1, { data: { nested: { list: [1, 'two', null] } } })
+    await adapter.set(record)
+    assertEqual(await adapter.get(record.canonId), record, 'get')
+  },
+
+  'get returns the latest version': async adapter => {
+    const [v1, v2, v3] = chain('CANON_latest', 3)
+    await adapter.set(v1)
+    await adapter.set(v2)
+    await adapter.set(v3)
+    assertEqual((await adapter.get(v1.canonId))?.version, 3, 'latest version')
+  },
+
+  'get keeps the highest version when versions arrive out of order': async adapter => {
+    const [v1, v2] = chain('CANON_ordering', 2)
+    await adapter.set(v2)
+    await adapter.set(v1)
+    assertEqual((await adapter.get(v1.canonId))?.version, 2, 'latest version')
+  },
+
+  'set rejects a second write of the same version': async adapter => {
+    const record = fixture('CANON_duplicate', 1)
+    await adapter.set(record)
+    const rejected = await adapter.set({ ...record, data: { tampered: true } }).then(() => false, () => true)
+    assert(rejected, 'duplicate version was accepted')
+    assertEqual((await adapter.get(record.canonId))?.data, record.data, 'stored data')
+  },
+
+  'concurrent writes are all stored': async adapter => {
+    const versions = chain('CANON_concurrent', 3)
+    const others = Array.from({ length: 5 }, (_, index) => fixture(`CANON_concurrent_${index}`, 1))
+    await Promise.all([...versions, ...others].map(record => adapter.set(record)))
+
+    assertEqual((await adapter.get('CANON_concurrent'))?.version, 3, 'latest version')
+    for (const record of others) {
+      assertEqual(await adapter.get(record.canonId), record, record.canonId)
+    }
+    if (adapter.getHistory) {
+      assertEqual(await adapter.getHistory('CANON_concurrent'), versions, 'history')
+    }
+  },
+
+  'getHistory returns every version, oldest first': async adapter => {
+    if (!adapter.getHistory) return 'skipped'
+    const versions = chain('CANON_history', 3)
+    for (const record of [versions[1], versions[0], versions[2]]) {
+      await adapter.set(record)
+    }
+    assertEqual(await adapter.getHistory('CANON_history'), versions, 'history')
+    assertEqual(await adapter.getHistory('CANON_missing'), [], 'missing history')
+  },
+
+  'list returns the latest version of each record': async adapter => {
+    const [a1, a2] = chain('CANON_list_a', 2)
+    const b1 = fixture('CANON_list_b', 1)
+    for (const record of [a1, a2, b1]) {
+      await adapter.set(record)
+    }
+    const listed = await adapter.list()
+    assertEqual(
+      listed.map(record => `${record.canonId}@${record.version}`).sort(),
+      ['CANON_list_a@2', 'CANON_list_b@1'],
+      'listed records'
+    )
+  },
+
+  'list filters by chittyId, tags, source and timestamp': async adapter => {
+    await adapter.set(fixture('CANON_filter_1', 1, {
+      chittyId: 'CID_alice',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      metadata: { source: 'import', tags: ['legal', 'final'] }
+    }))
+    await adapter.set(fixture('CANON_filter_2', 1, {
+      chittyId: 'CID_bob',
+      timestamp: '2024-06-01T00:00:00.000Z',
+      metadata: { source: 'api', tags: ['legal'] }
+    }))
+
+    const ids = async (filter: Parameters<CanonStorageAdapter['list']>[0]) =>
+      (await adapter.list(filter)).map(record => record.canonId).sort()
+
+    assertEqual(await ids({ chittyId: 'CID_alice' }), ['CANON_filter_1'], 'chittyId filter')
+    assertEqual(await ids({ tags: ['legal'] }), ['CANON_filter_1', 'CANON_filter_2'], 'tag filter')
+    assertEqual(await ids({ tags: ['legal', 'final'] }), ['CANON_filter_1'], 'all-tags filter')
+    assertEqual(await ids({ source: 'api' }), ['CANON_filter_2'], 'source filter')
+    assertEqual(await ids({ afterTimestamp: '2024-03-01T00:00:00.000Z' }), ['CANON_filter_2'], 'after filter')
+    assertEqual(await ids({ beforeTimestamp: '2024-03-01T00:00:00.000Z' }), ['CANON_filter_1'], 'before filter')
+  },
+
+  'delete removes the record and its history': async adapter => {
+    const [v1, v2] = chain('CANON_delete', 2)
+    await adapter.set(v1)
+    await adapter.set(v2)
+    assertEqual(await adapter.delete(v1.canonId), true, 'first delete')
+    assertEqual(await adapter.delete(v1.canonId), false, 'second delete')
+    assertEqual(await adapter.get(v1.canonId), null, 'get after delete')
+    assertEqual((await adapter.list()).some(record => record.canonId === v1.canonId), false, 'listed after delete')
+    if (adapter.getHistory) {
+      assertEqual(await adapter.getHistory(v1.canonId), [], 'history after delete')
+    }
+  },
+
+  'writes survive reopening the storage': async (adapter, options) => {
+    if (!options.reopen) return 'skipped'
+    const versions = chain('CANON_reopen', 2)
+    await adapter.set(versions[0])
+    await adapter.set(versions[1])
+    await adapter.set(fixture('CANON_reopen_deleted', 1))
+    await adapter.delete('CANON_reopen_deleted')
+
+    const reopened = await options.reopen(adapter)
+    assertEqual(await reopened.get('CANON_reopen'), versions[1], 'get after reopen')
+    assertEqual(await reopened.get('CANON_reopen_deleted'), null, 'deleted after reopen')
+    if (reopened.getHistory) {
+      assertEqual(await reopened.getHistory('CANON_reopen'), versions, 'history after reopen')
+    }
+  }
+}
+
+/**
+ * Run every conformance check, each against a fresh adapter from `createAdapter`
+ */
+export async function runCanonAdapterConformance(
+  createAdapter: () => CanonStorageAdapter | Promise<CanonStorageAdapter>,
+  options: CanonConformanceOptions = {}
+): Promise<CanonConformanceReport> {
+  const results: CanonConformanceReport['results'] = []
+
+  for (const [name, check] of Object.entries(checks)) {
+    try {
+      const outcome = await check(await createAdapter(), options)
+      results.push({ name, passed: true, ...(outcome === 'skipped' && { skipped: true }) })
+    } catch (error) {
+      results.push({ name, passed: false, error: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  const failures = results.filter(result => !result.passed).map(result => `${result.name}: ${result.error}`)
+  return { passed: failures.length === 0, results, failures }
+}
+
+function fixture(
+  canonId: string,
+  version: number,
+  overrides: Partial<CanonicalRecord> = {}
+): CanonicalRecord {
+  const hash = (n: number) => `${canonId}:${n}`.padEnd(64, '0').slice(0, 64)
+  return {
+    id: `${canonId}_v${version}`,
+    canonId,
+    version,
+    data: { version },
+    hash: hash(version),
+    ...(version > 1 && { previousHash: hash(version - 1) }),
+    chittyId: 'CID_conformance',
+    timestamp: new Date(Date.UTC(2024, 0, 1, 0, 0, version)).toISOString(),
+    metadata: { source: 'conformance', tags: [], immutable: false },
+    ...overrides
+  }
+}
+
+function chain(canonId: string, length: number): CanonicalRecord[] {
+  return Array.from({ length }, (_, index) => fixture(canonId, index + 1))
+}
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message)
+  }
+}
+
+function assertEqual(actual: unknown, expected: unknown, label: string): void {
+  if (!deepEqual(actual, expected)) {
+    throw new Error(`${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`)
+  }
+}
+
+function deepEqual(a: any, b: any): boolean {
+  if (a === b) return true
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+
+  // Adapters may drop undefined properties when serializing
+  const keys = (value: any) => Object.keys(value).filter(key => value[key] !== undefined)
+  const aKeys = keys(a)
+  const bKeys = keys(b)
+  return aKeys.length === bKeys.length && aKeys.every(key => deepEqual(a[key], b[key]))
+}
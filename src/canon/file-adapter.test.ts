@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { appendFile, mkdtemp, readFile, rm, stat, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { createFileCanonAdapter } from './file-adapter'
+import { runCanonAdapterConformance } from './conformance'
+import type { CanonicalRecord } from './index'
+
+const directories: string[] = []
+
+async function tempDirectory(): Promise<string> {
+  const directory = await mkdtemp(join(tmpdir(), 'canon-'))
+  directories.push(directory)
+  return directory
+}
+
+function record(canonId: string, version = 1): CanonicalRecord {
+  return {
+    id: `${canonId}_v${version}`,
+    canonId,
+    version,
+    data: { version },
+    hash: `${canonId}:${version}`,
+    chittyId: 'CID_test',
+    timestamp: new Date(Date.UTC(2024, 0, 1, 0, 0, version)).toISOString(),
+    metadata: { source: 'test', tags: [] }
+  }
+}
+
+afterEach(async () => {
+  vi.restoreAllMocks()
+  await Promise.all(directories.splice(0).map(directory => rm(directory, { recursive: true, force: true })))
+})
+
+describe('createFileCanonAdapter', () => {
+  it('passes the conformance suite', async () => {
+    let directory = ''
+    const report = await runCanonAdapterConformance(
+      async () => createFileCanonAdapter({ directory: directory = await tempDirectory(), sync: false }),
+      { reopen: () => createFileCanonAdapter({ directory, sync: false }) }
+    )
+
+    expect(report.failures).toEqual([])
+    expect(report.results.filter(result => result.skipped)).toEqual([])
+  })
+
+  it('truncates a torn trailing line on open', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const directory = await tempDirectory()
+    const logPath = join(directory, 'records.jsonl')
+    await createFileCanonAdapter({ directory }).set(record('CANON_a'))
+    const { size } = await stat(logPath)
+    await appendFile(logPath, '{"canonId":"CANON_b","vers')
+
+    const reopened = createFileCanonAdapter({ directory })
+    expect(await reopened.get('CANON_a')).toEqual(record('CANON_a'))
+    expect((await stat(logPath)).size).toBe(size)
+
+    await reopened.set(record('CANON_b'))
+    expect(await createFileCanonAdapter({ directory }).list()).toEqual([record('CANON_a'), record('CANON_b')])
+  })
+
+  it('rebuilds a missing or stale index from the log', async () => {
+    const directory = await tempDirectory()
+    const indexPath = join(directory, 'index.json')
+    const adapter = createFileCanonAdapter({ directory })
+    await adapter.set(record('CANON_a'))
+    await adapter.set(record('CANON_a', 2))
+
+    await rm(indexPath)
+    expect(await createFileCanonAdapter({ directory }).getHistory!('CANON_a'))
+      .toEqual([record('CANON_a'), record('CANON_a', 2)])
+    expect(JSON.parse(await readFile(indexPath, 'utf8')).records.CANON_a).toHaveLength(2)
+
+    await writeFile(indexPath, JSON.stringify({ logSize: 1, records: {} }))
+    expect(await createFileCanonAdapter({ directory }).get('CANON_a')).toEqual(record('CANON_a', 2))
+  })
+
+  it('skips a complete but unreadable line', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const directory = await tempDirectory()
+    const logPath = join(directory, 'records.jsonl')
+    await createFileCanonAdapter({ directory }).set(record('CANON_a'))
+    await appendFile(logPath, `{"canonId":\n${JSON.stringify(record('CANON_b'))}\n`)
+
+    const reopened = createFileCanonAdapter({ directory })
+
+    expect(await reopened.list()).toEqual([record('CANON_a'), record('CANON_b')])
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Skipping unreadable log line'))
+  })
+})
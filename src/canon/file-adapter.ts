@@ -0,0 +1,223 @@
+/**
+ * ChittyOS Canon - File storage adapter
+ * Append-only JSON-lines log of every record version, plus an index file
+ * with byte offsets. The log is synced before the index is replaced
+ * (write to a temp file, then rename), so a crash can at worst leave a stale
+ * index or a torn last line; both are repaired from the log on next open.
+ */
+
+import type { CanonicalRecord, CanonQuery, CanonStorageAdapter } from './index'
+import { matchesCanonQuery } from './index'
+
+export interface FileCanonAdapterOptions {
+  directory: string
+  /** fsync the log and index on every write (default: true) */
+  sync?: boolean
+}
+
+interface LogEntry {
+  offset: number
+  length: number
+  version: number
+}
+
+interface FileIndex {
+  /** Log size covered by this index; a mismatch triggers a rebuild */
+  logSize: number
+  records: Record<string, LogEntry[]>
+}
+
+type LogLine = CanonicalRecord | { deleted: string; timestamp: string }
+
+/**
+ * Create a storage adapter that keeps canonical records in `directory`
+ */
+export function createFileCanonAdapter(options: FileCanonAdapterOptions): CanonStorageAdapter {
+  const sync = options.sync ?? true
+  let state: Promise<{ fs: typeof import('fs/promises'); logPath: string; indexPath: string; index: FileIndex }> | null = null
+  let queue: Promise<unknown> = Promise.resolve()
+
+  const open = () => {
+    state ??= (async () => {
+      const fs = await import('fs/promises')
+      const { join } = await import('path')
+      await fs.mkdir(options.directory, { recursive: true })
+
+      const logPath = join(options.directory, 'records.jsonl')
+      const indexPath = join(options.directory, 'index.json')
+      const logSize = await fs.stat(logPath).then(stat => stat.size, () => 0)
+
+      let index: FileIndex | null = null
+      try {
+        index = JSON.parse(await fs.readFile(indexPath, 'utf8')) as FileIndex
+      } catch {
+        index = null
+      }
+
+      if (!index || index.logSize !== logSize) {
+        index = await rebuildIndex(fs, logPath)
+        await writeIndex(fs, indexPath, index, sync)
+      }
+
+      return { fs, logPath, indexPath, index }
+    })()
+    return state
+  }
+
+  // Writes are serialized so offsets and the index stay consistent
+  const exclusive = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = queue.then(task, task)
+    queue = run.catch(() => undefined)
+    return run
+  }
+
+  const append = async (line: LogLine) => {
+    const { fs, logPath, indexPath, index } = await open()
+    const bytes = Buffer.from(`${JSON.stringify(line)}\n`)
+    const offset = index.logSize
+
+    const handle = await fs.open(logPath, 'a')
+    try {
+      await handle.write(bytes)
+      if (sync) await handle.datasync()
+    } catch (error) {
+      // Reopen from disk next time, repairing any partial line
+      state = null
+      throw error
+    } finally {
+      await handle.close()
+    }
+
+    index.logSize = offset + bytes.length
+    if ('deleted' in line) {
+      delete index.records[line.deleted]
+    } else {
+      const entries = index.records[line.canonId] ??= []
+      entries.push({ offset, length: bytes.length - 1, version: line.version })
+      entries.sort((a, b) => a.version - b.version)
+    }
+    await writeIndex(fs, indexPath, index, sync)
+  }
+
+  // Entries are read in order through one handle, so large stores cannot
+  // run out of file descriptors
+  const read = async (entries: LogEntry[]): Promise<CanonicalRecord[]> => {
+    if (entries.length === 0) {
+      return []
+    }
+
+    const { fs, logPath } = await open()
+    const handle = await fs.open(logPath, 'r')
+    try {
+      const records: CanonicalRecord[] = []
+      for (const entry of entries) {
+        const buffer = Buffer.alloc(entry.length)
+        await handle.read(buffer, 0, entry.length, entry.offset)
+        records.push(JSON.parse(buffer.toString('utf8')) as CanonicalRecord)
+      }
+      return records
+    } finally {
+      await handle.close()
+    }
+  }
+
+  return {
+    async get(canonId) {
+      const { index } = await open()
+      const entries = index.records[canonId]
+      return entries?.length ? (await read([entries[entries.length - 1]]))[0] : null
+    },
+
+    set(record) {
+      return exclusive(async () => {
+        const { index } = await open()
+        if (index.records[record.canonId]?.some(entry => entry.version === record.version)) {
+          throw new Error(`Version ${record.version} of ${record.canonId} already stored`)
+        }
+        await append(record)
+      })
+    },
+
+    delete(canonId) {
+      return exclusive(async () => {
+        const { index } = await open()
+        if (!index.records[canonId]) {
+          return false
+        }
+        await append({ deleted: canonId, timestamp: new Date().toISOString() })
+        return true
+      })
+    },
+
+    async list(filter?: CanonQuery) {
+      const { index } = await open()
+      const heads = await read(Object.values(index.records).map(entries => entries[entries.length - 1]))
+      return heads.filter(record => matchesCanonQuery(record, filter))
+    },
+
+    async getHistory(canonId) {
+      const { index } = await open()
+      return read(index.records[canonId] || [])
+    }
+  }
+}
+
+/**
+ * Scan the log and rebuild the index, truncating a torn (unterminated) final line
+ */
+async function rebuildIndex(fs: typeof import('fs/promises'), logPath: string): Promise<FileIndex> {
+  const content = await fs.readFile(logPath).catch(() => Buffer.alloc(0))
+  const index: FileIndex = { logSize: 0, records: {} }
+
+  let offset = 0
+  while (offset < content.length) {
+    const end = content.indexOf(0x0a, offset)
+    if (end === -1) break
+
+    let line: LogLine
+    try {
+      line = JSON.parse(content.subarray(offset, end).toString('utf8')) as LogLine
+    } catch {
+      // A complete but unreadable line is skipped rather than truncated
+      console.warn(`[Canon] Skipping unreadable log line at byte ${offset}`)
+      offset = end + 1
+      continue
+    }
+
+    if ('deleted' in line) {
+      delete index.records[line.deleted]
+    } else {
+      const entries = index.records[line.canonId] ??= []
+      entries.push({ offset, length: end - offset, version: line.version })
+    }
+    offset = end + 1
+  }
+
+  if (offset < content.length) {
+    console.warn(`[Canon] Truncating ${content.length - offset} bytes of incomplete log data`)
+    await fs.truncate(logPath, offset)
+  }
+
+  for (const entries of Object.values(index.records)) {
+    entries.sort((a, b) => a.version - b.version)
+  }
+  index.logSize = offset
+  return index
+}
+
+async function writeIndex(
+  fs: typeof import('fs/promises'),
+  indexPath: string,
+  index: FileIndex,
+  sync: boolean
+): Promise<void> {
+  const tempPath = `${indexPath}.tmp`
+  const handle = await fs.open(tempPath, 'w')
+  try {
+    await handle.writeFile(JSON.stringify(index))
+    if (sync) await handle.sync()
+  } finally {
+    await handle.close()
+  }
+  await fs.rename(tempPath, indexPath)
+}
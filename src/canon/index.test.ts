@@ -0,0 +1,170 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import * as crypto from 'crypto'
+import {
+  clearCanonCache,
+  configure,
+  createCanonicalAsync,
+  getCanonical,
+  getCanonicalHistory,
+  getCanonicalHistoryAsync,
+  signCanonical,
+  updateCanonicalAsync,
+  validateCanonical,
+  verifyCanonicalChain,
+  verifyCanonicalHistory,
+  type CanonicalRecord,
+  type CanonStorageAdapter
+} from './index'
+
+function createMemoryAdapter(): CanonStorageAdapter & { writes: CanonicalRecord[] } {
+  const writes: CanonicalRecord[] = []
+  const history = (canonId: string) =>
+    writes.filter(record => record.canonId === canonId).sort((a, b) => a.version - b.version)
+
+  return {
+    writes,
+    async get(canonId) {
+      return history(canonId).at(-1) ?? null
+    },
+    async set(record) {
+      writes.push(record)
+    },
+    async delete(canonId) {
+      const before = writes.length
+      writes.splice(0, writes.length, ...writes.filter(record => record.canonId !== canonId))
+      return writes.length < before
+    },
+    async list() {
+      return [...new Set(writes.map(record => record.canonId))].map(canonId => history(canonId).at(-1)!)
+    },
+    async getHistory(canonId) {
+      return history(canonId)
+    }
+  }
+}
+
+let adapter: ReturnType<typeof createMemoryAdapter>
+
+beforeEach(() => {
+  adapter = createMemoryAdapter()
+  configure({ endpoint: undefined, enableChain: true, storageAdapter: adapter })
+  clearCanonCache()
+})
+
+describe('storage write-through', () => {
+  it('persists each version before resolving', async () => {
+    const record = await createCanonicalAsync({ status: 'draft' }, 'CID_alice')
+    const updated = await updateCanonicalAsync(record.canonId, { status: 'final' }, 'CID_alice')
+
+    expect(adapter.writes).toEqual([record, updated])
+  })
+
+  it('updates a record that is only in storage', async () => {
+    const record = await createCanonicalAsync({ status: 'draft' }, 'CID_alice')
+    clearCanonCache()
+
+    const updated = await updateCanonicalAsync(record.canonId, { status: 'final' }, 'CID_alice')
+
+    expect(updated).toMatchObject({ version: 2, previousHash: record.hash })
+    expect(await getCanonical(record.canonId)).toEqual(updated)
+  })
+
+  it('reads history from storage after the cache is cleared', async () => {
+    const record = await createCanonicalAsync({ status: 'draft' }, 'CID_alice')
+    const updated = await updateCanonicalAsync(record.canonId, { status: 'final' }, 'CID_alice')
+    clearCanonCache()
+
+    expect(getCanonicalHistory(record.canonId)).toEqual([])
+    expect(await getCanonicalHistoryAsync(record.canonId)).toEqual([record, updated])
+    expect(getCanonicalHistory(record.canonId)).toEqual([record, updated])
+  })
+})
+
+describe('record hashing', () => {
+  it('validates records hashed before canonical JSON, with a warning', async () => {
+    const record = await createCanonicalAsync({ b: 1, a: 2 }, 'CID_alice')
+    const { hashAlgorithm, ...legacy } = record
+    legacy.hash = crypto.createHash('sha256')
+      .update(JSON.stringify({ data: record.data, chittyId: record.chittyId, timestamp: record.timestamp }))
+      .digest('hex')
+
+    expect(hashAlgorithm).toBe('jcs-sha256')
+    expect(validateCanonical(record)).toEqual({ valid: true })
+    expect(validateCanonical(legacy)).toMatchObject({ valid: true, warnings: [expect.stringContaining('json-sha256')] })
+    expect(validateCanonical({ ...record, data: { a: 2, b: 1 } })).toEqual({ valid: true })
+    expect(validateCanonical({ ...record, data: { a: 3, b: 1 } }).errors).toContain('Hash mismatch - data integrity compromised')
+  })
+})
+
+describe('verifyCanonicalHistory', () => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', {
+    namedCurve: 'P-256',
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+  })
+
+  async function signedHistory() {
+    const record = await createCanonicalAsync({ status: 'draft' }, 'CID_alice')
+    const updated = await updateCanonicalAsync(record.canonId, { status: 'final' }, 'CID_alice')
+    return [signCanonical(record, privateKey), signCanonical(updated!, privateKey)]
+  }
+
+  it('accepts a signed chain verified against the public key', async () => {
+    const history = await signedHistory()
+
+    const report = verifyCanonicalHistory(history, { publicKey, requireSignatures: true })
+
+    expect(report.valid).toBe(true)
+    expect(report.versions.map(link => link.signatureValid)).toEqual([true, true])
+  })
+
+  it('names the first broken link', async () => {
+    const [v1, v2] = await signedHistory()
+
+    const report = verifyCanonicalHistory([v1, { ...v2, data: { status: 'forged' } }], { publicKey })
+
+    expect(report).toMatchObject({
+      valid: false,
+      firstBrokenLink: { version: 2, errors: ['Hash mismatch - data integrity compromised'] }
+    })
+  })
+
+  it('does not accept signatures it cannot verify', async () => {
+    const [v1, v2] = await signedHistory()
+
+    const report = verifyCanonicalHistory([v1, { ...v2, signature: 'forged' }], { requireSignatures: true })
+
+    expect(report.valid).toBe(false)
+    expect(report.versions.map(link => link.errors)).toEqual([
+      ['Signature not verified: no public key'],
+      ['Signature not verified: no public key']
+    ])
+  })
+
+  it('does not carry a signature over to an unsigned update', async () => {
+    const record = await createCanonicalAsync({ status: 'draft' }, 'CID_alice')
+    const signed = signCanonical(record, privateKey)
+    // Make the signed version the stored head
+    clearCanonCache()
+    await adapter.delete(record.canonId)
+    await adapter.set(signed)
+
+    const updated = await updateCanonicalAsync(record.canonId, { status: 'final' }, 'CID_alice')
+    const report = await verifyCanonicalChain(record.canonId, { publicKey })
+
+    expect(updated).not.toHaveProperty('signature')
+    expect(report.valid).toBe(true)
+    expect(report.versions.map(link => link.signatureValid)).toEqual([true, undefined])
+  })
+
+  it('rejects a forged signature and a missing one', async () => {
+    const [v1, v2] = await signedHistory()
+
+    const report = verifyCanonicalHistory(
+      [{ ...v1, signature: undefined }, { ...v2, signature: signCanonical(v1, privateKey).signature }],
+      { publicKey, requireSignatures: true }
+    )
+
+    expect(report.versions.map(link => link.errors)).toEqual([['Missing signature'], ['Invalid signature']])
+  })
+})
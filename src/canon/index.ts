@@ -6,6 +6,16 @@
 import { nanoid } from 'nanoid'
 import * as crypto from 'crypto'
 import { ChittyID } from '../id'
+import { hashData } from '../verify'
+
+/**
+ * How a record's hash was computed. `jcs-sha256` hashes RFC 8785 canonical
+ * JSON; `json-sha256` hashed `JSON.stringify` output and is kept so records
+ * created before canonical hashing still validate.
+ */
+export type CanonHashAlgorithm = 'jcs-sha256' | 'json-sha256'
+
+export const CANON_HASH_ALGORITHM: CanonHashAlgorithm = 'jcs-sha256'
 
 export interface CanonicalRecord {
   id: string
@@ -14,6 +24,8 @@ export interface CanonicalRecord {
   data: any
   schema?: string
   hash: string
+  /** Absent on records created before canonical hashing (`json-sha256`) */
+  hashAlgorithm?: CanonHashAlgorithm
   signature?: string
   chittyId: string
   timestamp: string
@@ -33,11 +45,26 @@ export interface CanonConfig {
   storageAdapter?: CanonStorageAdapter
 }
 
+export interface CanonQuery {
+  chittyId?: string
+  tags?: string[]
+  source?: string
+  afterTimestamp?: string
+  beforeTimestamp?: string
+}
+
+/**
+ * Persistence for canonical records. `set` is called once per version and
+ * must keep earlier versions; `get` returns the latest version.
+ */
 export interface CanonStorageAdapter {
   get(canonId: string): Promise<CanonicalRecord | null>
   set(record: CanonicalRecord): Promise<void>
   delete(canonId: string): Promise<boolean>
-  list(filter?: any): Promise<CanonicalRecord[]>
+  /** Latest version of each record matching the filter */
+  list(filter?: CanonQuery): Promise<CanonicalRecord[]>
+  /** All stored versions of a record, oldest first */
+  getHistory?(canonId: string): Promise<CanonicalRecord[]>
 }
 
 export interface CanonValidation {
@@ -46,6 +73,36 @@ export interface CanonValidation {
   warnings?: string[]
 }
 
+export interface CanonChainOptions {
+  /** Verify each version's signature against this PEM public key */
+  publicKey?: string
+  /**
+   * Treat versions without a valid signature as broken links. Signatures
+   * can only be checked against `publicKey`, so without one every version fails.
+   */
+  requireSignatures?: boolean
+}
+
+export interface CanonChainLink {
+  version: number
+  id: string
+  hash: string
+  valid: boolean
+  errors: string[]
+  /** Set when a public key was supplied and the version is signed */
+  signatureValid?: boolean
+}
+
+export interface CanonChainReport {
+  canonId: string
+  valid: boolean
+  length: number
+  versions: CanonChainLink[]
+  /** The earliest version that failed a check */
+  firstBrokenLink?: { version: number; errors: string[] }
+  errors?: string[]
+}
+
 const DEFAULT_CONFIG: CanonConfig = {
   endpoint: process.env.CHITTY_CANON_ENDPOINT || 'https://canon.chitty.cc',
   enableChain: true,
@@ -55,34 +112,108 @@ const DEFAULT_CONFIG: CanonConfig = {
 let config = { ...DEFAULT_CONFIG }
 const canonCache = new Map<string, CanonicalRecord>()
 const chainIndex = new Map<string, CanonicalRecord[]>()
+const recordListeners = new Set<(record: CanonicalRecord) => void>()
 
 export function configure(customConfig: CanonConfig): void {
   config = { ...config, ...customConfig }
 }
 
 /**
- * Create a new canonical record
+ * Create a new canonical record.
+ * With a storage adapter configured the record is persisted in the
+ * background; use createCanonicalAsync to wait for the write.
  */
 export function createCanonical(
   data: any,
   chittyId: string,
   metadata?: CanonicalRecord['metadata']
+): CanonicalRecord {
+  const record = buildCanonical(data, chittyId, metadata)
+  cacheRecord(record)
+  persistInBackground(record)
+  return record
+}
+
+/**
+ * Create a new canonical record and persist it through the storage adapter
+ */
+export async function createCanonicalAsync(
+  data: any,
+  chittyId: string,
+  metadata?: CanonicalRecord['metadata']
+): Promise<CanonicalRecord> {
+  const record = buildCanonical(data, chittyId, metadata)
+  await config.storageAdapter?.set(record)
+  cacheRecord(record)
+  return record
+}
+
+/**
+ * Update a canonical record (creates new version).
+ * Only cached records can be updated synchronously; use updateCanonicalAsync
+ * to update records that live in storage.
+ */
+export function updateCanonical(
+  canonId: string,
+  data: any,
+  chittyId: string
+): CanonicalRecord | null {
+  const existing = canonCache.get(canonId)
+
+  if (!existing) {
+    return null
+  }
+
+  const record = buildVersion(existing, data, chittyId)
+  cacheRecord(record)
+  persistInBackground(record)
+  return record
+}
+
+/**
+ * Update a canonical record, loading it from storage if needed, and persist
+ * the new version through the storage adapter
+ */
+export async function updateCanonicalAsync(
+  canonId: string,
+  data: any,
+  chittyId: string
+): Promise<CanonicalRecord | null> {
+  const existing = await getCanonical(canonId)
+
+  if (!existing) {
+    return null
+  }
+
+  // Load the stored chain first so the in-memory chain stays complete
+  if (config.enableChain && !chainIndex.has(canonId)) {
+    await getCanonicalHistoryAsync(canonId)
+  }
+
+  const record = buildVersion(existing, data, chittyId)
+  await config.storageAdapter?.set(record)
+  cacheRecord(record)
+  return record
+}
+
+function buildCanonical(
+  data: any,
+  chittyId: string,
+  metadata?: CanonicalRecord['metadata']
 ): CanonicalRecord {
   const canonId = `CANON_${nanoid(21)}`
   const timestamp = new Date().toISOString()
 
   // Calculate data hash
-  const hash = crypto
-    .createHash('sha256')
-    .update(JSON.stringify({ data, chittyId, timestamp }))
-    .digest('hex')
+  const hash = hashRecord({ data, chittyId, timestamp })
 
-  const record: CanonicalRecord = {
+  return {
     id: nanoid(),
     canonId,
     version: 1,
     data,
     hash,
+    hashAlgorithm: CANON_HASH_ALGORITHM,
     chittyId,
     timestamp,
     metadata: {
@@ -92,32 +223,9 @@ export function createCanonical(
       immutable: metadata?.immutable || false
     }
   }
-
-  // Store in cache
-  canonCache.set(canonId, record)
-
-  // Initialize chain if enabled
-  if (config.enableChain) {
-    chainIndex.set(canonId, [record])
-  }
-
-  return record
 }
 
-/**
- * Update a canonical record (creates new version)
- */
-export function updateCanonical(
-  canonId: string,
-  data: any,
-  chittyId: string
-): CanonicalRecord | null {
-  const existing = canonCache.get(canonId)
-
-  if (!existing) {
-    return null
-  }
-
+function buildVersion(existing: CanonicalRecord, data: any, chittyId: string): CanonicalRecord {
   if (existing.metadata?.immutable) {
     throw new Error('Cannot update immutable canonical record')
   }
@@ -126,33 +234,73 @@ export function updateCanonical(
   const previousHash = existing.hash
 
   // Calculate new hash including previous hash for chain integrity
-  const hash = crypto
-    .createHash('sha256')
-    .update(JSON.stringify({ data, chittyId, timestamp, previousHash }))
-    .digest('hex')
+  const hash = hashRecord({ data, chittyId, timestamp, previousHash })
+
+  // A signature covers a single version's hash, so it never carries over
+  const { signature, ...unsigned } = existing
 
-  const record: CanonicalRecord = {
-    ...existing,
+  return {
+    ...unsigned,
     id: nanoid(),
     version: existing.version + 1,
     data,
     hash,
+    hashAlgorithm: CANON_HASH_ALGORITHM,
     previousHash,
     chittyId,
     timestamp
   }
+}
 
-  // Update cache
-  canonCache.set(canonId, record)
+function hashRecord(
+  record: Pick<CanonicalRecord, 'data' | 'chittyId' | 'timestamp' | 'previousHash'>,
+  algorithm: CanonHashAlgorithm = CANON_HASH_ALGORITHM
+): string {
+  const payload = {
+    data: record.data,
+    chittyId: record.chittyId,
+    timestamp: record.timestamp,
+    ...(record.previousHash && { previousHash: record.previousHash })
+  }
+
+  return algorithm === 'json-sha256'
+    ? crypto.createHash('sha256').update(JSON.stringify(payload)).digest('hex')
+    : hashData(payload, 'sha256')
+}
+
+function cacheRecord(record: CanonicalRecord): void {
+  canonCache.set(record.canonId, record)
 
-  // Update chain if enabled
   if (config.enableChain) {
-    const chain = chainIndex.get(canonId) || []
+    const chain = chainIndex.get(record.canonId) || []
     chain.push(record)
-    chainIndex.set(canonId, chain)
+    chainIndex.set(record.canonId, chain)
   }
 
-  return record
+  for (const listener of recordListeners) {
+    try {
+      listener(record)
+    } catch (error) {
+      console.error('[Canon] Record listener failed:', error)
+    }
+  }
+}
+
+/**
+ * Subscribe to every record version created in this process.
+ * Returns a function that removes the listener.
+ */
+export function onCanonicalRecord(listener: (record: CanonicalRecord) => void): () => void {
+  recordListeners.add(listener)
+  return () => {
+    recordListeners.delete(listener)
+  }
+}
+
+function persistInBackground(record: CanonicalRecord): void {
+  config.storageAdapter?.set(record).catch(error => {
+    console.error('[Canon] Failed to persist record:', record.canonId, error)
+  })
 }
 
 /**
@@ -191,12 +339,40 @@ export async function getCanonical(canonId: string): Promise<CanonicalRecord | n
 }
 
 /**
- * Get version history for a canonical record
+ * Get version history for a canonical record from the in-memory chain.
+ * Use getCanonicalHistoryAsync to include versions held only in storage.
  */
 export function getCanonicalHistory(canonId: string): CanonicalRecord[] {
   return chainIndex.get(canonId) || []
 }
 
+/**
+ * Get version history for a canonical record, oldest first.
+ * Reads the stored chain when the storage adapter supports it.
+ */
+export async function getCanonicalHistoryAsync(canonId: string): Promise<CanonicalRecord[]> {
+  if (config.storageAdapter?.getHistory) {
+    const stored = await config.storageAdapter.getHistory(canonId)
+    const cached = chainIndex.get(canonId) || []
+
+    // Versions written in the background may not have reached storage yet
+    const versions = new Map<number, CanonicalRecord>()
+    for (const record of [...stored, ...cached]) {
+      if (!versions.has(record.version)) {
+        versions.set(record.version, record)
+      }
+    }
+    const history = [...versions.values()].sort((a, b) => a.version - b.version)
+
+    if (history.length && config.enableChain) {
+      chainIndex.set(canonId, history)
+    }
+    return history
+  }
+
+  return chainIndex.get(canonId) || []
+}
+
 /**
  * Validate canonical record integrity
  */
@@ -217,25 +393,22 @@ export function validateCanonical(record: CanonicalRecord): CanonValidation {
     errors.push('Missing ChittyID')
   }
 
-  // Validate hash integrity
-  const expectedHash = crypto
-    .createHash('sha256')
-    .update(JSON.stringify({
-      data: record.data,
-      chittyId: record.chittyId,
-      timestamp: record.timestamp,
-      ...(record.previousHash && { previousHash: record.previousHash })
-    }))
-    .digest('hex')
-
-  if (record.hash !== expectedHash) {
+  // Validate hash integrity with the algorithm the record was created with
+  const algorithm = record.hashAlgorithm ?? 'json-sha256'
+  if (algorithm !== 'jcs-sha256' && algorithm !== 'json-sha256') {
+    errors.push(`Unsupported hash algorithm: ${algorithm}`)
+  } else if (record.hash !== hashRecord(record, algorithm)) {
     errors.push('Hash mismatch - data integrity compromised')
   }
 
+  if (algorithm === 'json-sha256') {
+    warnings.push('Record uses legacy json-sha256 hashing; the next version will use jcs-sha256')
+  }
+
   // Validate chain integrity if previous hash exists
   if (record.previousHash && record.version > 1) {
-    const history = getCanonicalHistory(record.canonId)
-    const previousRecord = history[record.version - 2]
+    const history = chainIndex.get(record.canonId) || []
+    const previousRecord = history.find(entry => entry.version === record.version - 1)
 
     if (previousRecord && previousRecord.hash !== record.previousHash) {
       errors.push('Chain integrity violation - previous hash mismatch')
@@ -297,6 +470,91 @@ export function verifyCanonicalSignature(
   }
 }
 
+/**
+ * Verify a record's full lineage from genesis: version continuity,
+ * previousHash links, each hash, signatures and timestamp order
+ */
+export async function verifyCanonicalChain(
+  canonId: string,
+  options: CanonChainOptions = {}
+): Promise<CanonChainReport> {
+  return verifyCanonicalHistory(await getCanonicalHistoryAsync(canonId), options, canonId)
+}
+
+/**
+ * Verify an exported version history, oldest first, without storage access
+ */
+export function verifyCanonicalHistory(
+  history: CanonicalRecord[],
+  options: CanonChainOptions = {},
+  canonId = history[0]?.canonId ?? ''
+): CanonChainReport {
+  if (history.length === 0) {
+    return { canonId, valid: false, length: 0, versions: [], errors: ['No versions found'] }
+  }
+
+  const versions = history.map((record, index): CanonChainLink => {
+    const errors: string[] = []
+    const previous = history[index - 1]
+    const expectedVersion = previous ? previous.version + 1 : 1
+
+    if (record.canonId !== canonId) {
+      errors.push(`Version belongs to ${record.canonId}`)
+    }
+
+    if (record.version !== expectedVersion) {
+      errors.push(`Expected version ${expectedVersion}, found ${record.version}`)
+    }
+
+    if (!previous && record.previousHash) {
+      errors.push('Genesis version has a previous hash')
+    }
+    if (previous && record.previousHash !== previous.hash) {
+      errors.push(`Previous hash does not match version ${previous.version}`)
+    }
+
+    const algorithm = record.hashAlgorithm ?? 'json-sha256'
+    if (algorithm !== 'jcs-sha256' && algorithm !== 'json-sha256') {
+      errors.push(`Unsupported hash algorithm: ${algorithm}`)
+    } else if (record.hash !== hashRecord(record, algorithm)) {
+      errors.push('Hash mismatch - data integrity compromised')
+    }
+
+    if (previous && new Date(record.timestamp).getTime() < new Date(previous.timestamp).getTime()) {
+      errors.push(`Timestamp precedes version ${previous.version}`)
+    }
+
+    let signatureValid: boolean | undefined
+    if (options.publicKey && record.signature) {
+      signatureValid = verifyCanonicalSignature(record, options.publicKey)
+      if (!signatureValid) {
+        errors.push('Invalid signature')
+      }
+    } else if (options.requireSignatures) {
+      errors.push(record.signature ? 'Signature not verified: no public key' : 'Missing signature')
+    }
+
+    return {
+      version: record.version,
+      id: record.id,
+      hash: record.hash,
+      valid: errors.length === 0,
+      errors,
+      ...(signatureValid !== undefined && { signatureValid })
+    }
+  })
+
+  const broken = versions.find(link => !link.valid)
+
+  return {
+    canonId,
+    valid: !broken,
+    length: history.length,
+    versions,
+    ...(broken && { firstBrokenLink: { version: broken.version, errors: broken.errors } })
+  }
+}
+
 /**
  * Merge conflicting canonical records
  */
@@ -356,45 +614,44 @@ export function mergeCanonical(
 }
 
 /**
- * Query canonical records
+ * Check a record against a query filter
  */
-export async function queryCanonical(filter: {
-  chittyId?: string
-  tags?: string[]
-  source?: string
-  afterTimestamp?: string
-  beforeTimestamp?: string
-}): Promise<CanonicalRecord[]> {
-  let results: CanonicalRecord[] = []
-
-  // Query from cache
-  for (const record of canonCache.values()) {
-    let matches = true
+export function matchesCanonQuery(record: CanonicalRecord, filter: CanonQuery = {}): boolean {
+  if (filter.chittyId && record.chittyId !== filter.chittyId) {
+    return false
+  }
 
-    if (filter.chittyId && record.chittyId !== filter.chittyId) {
-      matches = false
+  if (filter.tags && filter.tags.length > 0) {
+    const recordTags = record.metadata?.tags || []
+    if (!filter.tags.every(tag => recordTags.includes(tag))) {
+      return false
     }
+  }
 
-    if (filter.tags && filter.tags.length > 0) {
-      const recordTags = record.metadata?.tags || []
-      if (!filter.tags.every(tag => recordTags.includes(tag))) {
-        matches = false
-      }
-    }
+  if (filter.source && record.metadata?.source !== filter.source) {
+    return false
+  }
 
-    if (filter.source && record.metadata?.source !== filter.source) {
-      matches = false
-    }
+  if (filter.afterTimestamp && record.timestamp <= filter.afterTimestamp) {
+    return false
+  }
 
-    if (filter.afterTimestamp && record.timestamp <= filter.afterTimestamp) {
-      matches = false
-    }
+  if (filter.beforeTimestamp && record.timestamp >= filter.beforeTimestamp) {
+    return false
+  }
 
-    if (filter.beforeTimestamp && record.timestamp >= filter.beforeTimestamp) {
-      matches = false
-    }
+  return true
+}
+
+/**
+ * Query canonical records
+ */
+export async function queryCanonical(filter: CanonQuery): Promise<CanonicalRecord[]> {
+  let results: CanonicalRecord[] = []
 
-    if (matches) {
+  // Query from cache
+  for (const record of canonCache.values()) {
+    if (matchesCanonQuery(record, filter)) {
       results.push(record)
     }
   }
@@ -457,17 +714,48 @@ export function getCanonStats(): {
   }
 }
 
+export { createFileCanonAdapter } from './file-adapter'
+export type { FileCanonAdapterOptions } from './file-adapter'
+export { createSqliteCanonAdapter } from './sqlite-adapter'
+export type { SqliteCanonAdapterOptions, SqliteDatabase, SqliteStatement } from './sqlite-adapter'
+export { runCanonAdapterConformance } from './conformance'
+export {
+  MERKLE_ROOT_TAG,
+  buildMerkleTree,
+  createInclusionProof,
+  verifyInclusionProof,
+  publishMerkleRoot,
+  getInclusionProof,
+  startMerkleBatching
+} from './merkle'
+export type {
+  MerkleTree,
+  MerkleProofStep,
+  MerkleInclusionProof,
+  MerkleRootData,
+  MerkleBatchOptions,
+  MerkleBatcherOptions,
+  MerkleBatcher
+} from './merkle'
+export type { CanonConformanceOptions, CanonConformanceReport } from './conformance'
+
 export default {
   configure,
   createCanonical,
+  createCanonicalAsync,
   updateCanonical,
+  updateCanonicalAsync,
   getCanonical,
   getCanonicalHistory,
+  getCanonicalHistoryAsync,
   validateCanonical,
   signCanonical,
   verifyCanonicalSignature,
+  verifyCanonicalChain,
+  verifyCanonicalHistory,
   mergeCanonical,
   queryCanonical,
+  onCanonicalRecord,
   clearCanonCache,
   getCanonStats
 }
\ No newline at end of file
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import * as crypto from 'crypto'
+import { clearCanonCache, configure, createCanonical } from './index'
+import {
+  buildMerkleTree,
+  createInclusionProof,
+  getInclusionProof,
+  publishMerkleRoot,
+  startMerkleBatching,
+  verifyInclusionProof,
+  type MerkleBatcher
+} from './merkle'
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', {
+  namedCurve: 'P-256',
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+})
+
+const hashes = (count: number) =>
+  Array.from({ length: count }, (_, index) => crypto.createHash('sha256').update(`record-${index}`).digest('hex'))
+
+let batcher: MerkleBatcher | undefined
+
+beforeEach(() => {
+  configure({ endpoint: undefined, storageAdapter: undefined })
+  clearCanonCache()
+})
+
+afterEach(() => {
+  batcher?.stop()
+  batcher = undefined
+})
+
+describe('inclusion proofs', () => {
+  it('proves every leaf of trees with unpaired nodes', () => {
+    for (let size = 1; size <= 7; size++) {
+      const tree = buildMerkleTree(hashes(size))
+      for (const leaf of tree.leaves) {
+        expect(verifyInclusionProof(createInclusionProof(tree, leaf), { root: tree.root })).toBe(true)
+      }
+    }
+  })
+
+  it('fails without a trusted root or public key', () => {
+    const tree = buildMerkleTree(hashes(4))
+
+    expect(verifyInclusionProof(createInclusionProof(tree, tree.leaves[2]))).toBe(false)
+  })
+
+  it('rejects a proof for another root or a tampered path', () => {
+    const tree = buildMerkleTree(hashes(4))
+    const proof = createInclusionProof(tree, tree.leaves[1])
+
+    expect(verifyInclusionProof(proof, { root: buildMerkleTree(hashes(3)).root })).toBe(false)
+    expect(verifyInclusionProof({ ...proof, leaf: tree.leaves[0] }, { root: tree.root })).toBe(false)
+    expect(verifyInclusionProof({ ...proof, index: 0 }, { root: tree.root })).toBe(false)
+  })
+})
+
+describe('published roots', () => {
+  it('proves a record against the signed root', async () => {
+    const records = [createCanonical({ n: 1 }, 'CID_alice'), createCanonical({ n: 2 }, 'CID_bob')]
+    const { record: root } = await publishMerkleRoot(records, { chittyId: 'CID_notary', privateKey })
+
+    const proof = await getInclusionProof(records[1].hash)
+
+    expect(proof).toMatchObject({ rootCanonId: root.canonId, signedBy: 'CID_notary', treeSize: 2 })
+    expect(verifyInclusionProof(proof!, { publicKey })).toBe(true)
+    expect(verifyInclusionProof({ ...proof!, rootSignature: undefined }, { publicKey })).toBe(false)
+    expect(await getInclusionProof('unknown')).toBeNull()
+  })
+
+  it('batches records created since the last flush', async () => {
+    batcher = startMerkleBatching({ chittyId: 'CID_notary', privateKey })
+    const record = createCanonical({ n: 1 }, 'CID_alice')
+
+    const published = await batcher.flush()
+
+    expect(published?.tree.leaves).toEqual([record.hash])
+    expect(batcher.pending()).toBe(0)
+    expect(await batcher.flush()).toBeNull()
+  })
+})
@@ -0,0 +1,349 @@
+/**
+ * ChittyOS Canon - Merkle batches and inclusion proofs
+ * Record hashes are batched into a Merkle tree whose signed root is published
+ * as a canonical record. An inclusion proof shows a record hash is part of a
+ * batch without disclosing the other records in it. The published root record
+ * itself lists every leaf hash of its batch, so proofs can be rebuilt later.
+ *
+ * Leaves and nodes are domain-separated as in RFC 6962
+ * (`sha256(0x00 || leaf)`, `sha256(0x01 || left || right)`), and an unpaired
+ * node is carried up to the next level unchanged.
+ */
+
+import * as crypto from 'crypto'
+import type { CanonicalRecord } from './index'
+import { createCanonicalAsync, getCanonical, onCanonicalRecord, queryCanonical } from './index'
+import { canonicalize } from '../verify'
+
+export const MERKLE_ROOT_TAG = 'merkle-root'
+
+export interface MerkleTree {
+  root: string
+  /** Leaf values (record hashes) in tree order */
+  leaves: string[]
+  /** Node hashes per level, leaves first and root last */
+  levels: string[][]
+}
+
+export interface MerkleProofStep {
+  /** Which side the sibling sits on */
+  position: 'left' | 'right'
+  hash: string
+}
+
+/**
+ * Self-contained, JSON-serializable proof that `leaf` is in the tree with `root`
+ */
+export interface MerkleInclusionProof {
+  version: 1
+  algorithm: 'sha256'
+  leaf: string
+  index: number
+  treeSize: number
+  path: MerkleProofStep[]
+  root: string
+  /** Canonical record the root was published as */
+  rootCanonId?: string
+  /** Signature over the root, verifiable with the publisher's public key */
+  rootSignature?: string
+  signedBy?: string
+}
+
+/**
+ * Data stored in a published root record
+ */
+export interface MerkleRootData {
+  type: 'merkle-root'
+  algorithm: 'sha256'
+  root: string
+  treeSize: number
+  /** Every record hash in the batch; readable by anyone who can read the root record */
+  leaves: string[]
+  signature?: string
+}
+
+export interface MerkleBatchOptions {
+  /** ChittyID that publishes (and signs) the roots */
+  chittyId: string
+  /** PEM private key used to sign each root */
+  privateKey?: string
+  tags?: string[]
+}
+
+export interface MerkleBatcherOptions extends MerkleBatchOptions {
+  /** How often pending hashes are published (default: 1 hour) */
+  intervalMs?: number
+  /** Skip a scheduled flush until this many hashes are pending (default: 1) */
+  minBatchSize?: number
+  onBatch?: (record: CanonicalRecord, tree: MerkleTree) => void
+}
+
+export interface MerkleBatcher {
+  /** Publish pending hashes now; resolves to null when nothing is pending */
+  flush(): Promise<{ record: CanonicalRecord; tree: MerkleTree } | null>
+  /** Number of record hashes waiting for the next batch */
+  pending(): number
+  stop(): void
+}
+
+/**
+ * Build a Merkle tree over record hashes
+ */
+export function buildMerkleTree(leaves: string[]): MerkleTree {
+  if (leaves.length === 0) {
+    throw new Error('Cannot build a Merkle tree without leaves')
+  }
+
+  const levels = [leaves.map(hashLeaf)]
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1]
+    const next: string[] = []
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashNode(level[i], level[i + 1]) : level[i])
+    }
+    levels.push(next)
+  }
+
+  return { root: levels[levels.length - 1][0], leaves: [...leaves], levels }
+}
+
+/**
+ * Create an inclusion proof for a leaf of the tree
+ */
+export function createInclusionProof(tree: MerkleTree, leaf: string): MerkleInclusionProof {
+  const index = tree.leaves.indexOf(leaf)
+  if (index === -1) {
+    throw new Error(`Hash ${leaf} is not a leaf of this tree`)
+  }
+
+  const path = proofPositions(index, tree.leaves.length).map(({ level, sibling, position }) => ({
+    position,
+    hash: tree.levels[level][sibling]
+  }))
+
+  return {
+    version: 1,
+    algorithm: 'sha256',
+    leaf,
+    index,
+    treeSize: tree.leaves.length,
+    path,
+    root: tree.root
+  }
+}
+
+/**
+ * Verify an inclusion proof against a trusted root and/or the publisher's
+ * public key. A proof carries its own root, so without either anchor it
+ * proves nothing and verification fails.
+ */
+export function verifyInclusionProof(
+  proof: MerkleInclusionProof,
+  options: { root?: string; publicKey?: string } = {}
+): boolean {
+  try {
+    if (proof.version !== 1 || proof.algorithm !== 'sha256') {
+      return false
+    }
+    if (!options.root && !options.publicKey) {
+      return false
+    }
+    if (options.root && options.root !== proof.root) {
+      return false
+    }
+
+    const expected = proofPositions(proof.index, proof.treeSize)
+    if (expected.length !== proof.path.length) {
+      return false
+    }
+
+    let hash = hashLeaf(proof.leaf)
+    for (const [i, step] of proof.path.entries()) {
+      if (step.position !== expected[i].position) {
+        return false
+      }
+      hash = step.position === 'left' ? hashNode(step.hash, hash) : hashNode(hash, step.hash)
+    }
+    if (hash !== proof.root) {
+      return false
+    }
+
+    if (options.publicKey) {
+      if (!proof.rootSignature) {
+        return false
+      }
+      const verify = crypto.createVerify('SHA256')
+      verify.update(rootPayload(proof.root, proof.treeSize))
+      return verify.verify(options.publicKey, proof.rootSignature, 'base64')
+    }
+
+    return true
+  } catch (error) {
+    return false
+  }
+}
+
+/**
+ * Build a tree over the given records and publish its signed root as a
+ * canonical record. The record stores every leaf hash (not the records
+ * themselves), so anyone who can read it learns which hashes were batched.
+ */
+export async function publishMerkleRoot(
+  records: Array<CanonicalRecord | string>,
+  options: MerkleBatchOptions
+): Promise<{ record: CanonicalRecord; tree: MerkleTree }> {
+  const tree = buildMerkleTree(records.map(record => typeof record === 'string' ? record : record.hash))
+
+  let signature: string | undefined
+  if (options.privateKey) {
+    const sign = crypto.createSign('SHA256')
+    sign.update(rootPayload(tree.root, tree.leaves.length))
+    signature = sign.sign(options.privateKey, 'base64')
+  }
+
+  const data: MerkleRootData = {
+    type: 'merkle-root',
+    algorithm: 'sha256',
+    root: tree.root,
+    treeSize: tree.leaves.length,
+    leaves: tree.leaves,
+    ...(signature && { signature })
+  }
+
+  const record = await createCanonicalAsync(data, options.chittyId, {
+    source: 'canon-merkle',
+    tags: [MERKLE_ROOT_TAG, ...(options.tags || [])],
+    immutable: true
+  })
+
+  return { record, tree }
+}
+
+/**
+ * Produce an inclusion proof for a record hash. Without `rootCanonId`, the
+ * most recent published root containing the hash is used.
+ */
+export async function getInclusionProof(
+  recordHash: string,
+  rootCanonId?: string
+): Promise<MerkleInclusionProof | null> {
+  let rootRecord: CanonicalRecord | null = null
+
+  if (rootCanonId) {
+    rootRecord = await getCanonical(rootCanonId)
+  } else {
+    const roots = await queryCanonical({ tags: [MERKLE_ROOT_TAG] })
+    rootRecord = roots
+      .filter(record => (record.data as MerkleRootData)?.leaves?.includes(recordHash))
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))[0] ?? null
+  }
+
+  const data = rootRecord?.data as MerkleRootData | undefined
+  if (!rootRecord || data?.type !== 'merkle-root' || !data.leaves.includes(recordHash)) {
+    return null
+  }
+
+  const tree = buildMerkleTree(data.leaves)
+  if (tree.root !== data.root) {
+    throw new Error(`Merkle root record ${rootRecord.canonId} does not match its leaves`)
+  }
+
+  return {
+    ...createInclusionProof(tree, recordHash),
+    rootCanonId: rootRecord.canonId,
+    ...(data.signature && { rootSignature: data.signature }),
+    signedBy: rootRecord.chittyId
+  }
+}
+
+/**
+ * Collect the hash of every record created in this process and publish a
+ * root for them on an interval
+ */
+export function startMerkleBatching(options: MerkleBatcherOptions): MerkleBatcher {
+  const minBatchSize = options.minBatchSize ?? 1
+  let pending: string[] = []
+
+  const unsubscribe = onCanonicalRecord(record => {
+    if (!record.metadata?.tags.includes(MERKLE_ROOT_TAG)) {
+      pending.push(record.hash)
+    }
+  })
+
+  const flush = async () => {
+    if (pending.length === 0) {
+      return null
+    }
+
+    const batch = pending
+    pending = []
+    try {
+      const published = await publishMerkleRoot(batch, options)
+      options.onBatch?.(published.record, published.tree)
+      return published
+    } catch (error) {
+      // Keep the hashes for the next attempt
+      pending = [...batch, ...pending]
+      throw error
+    }
+  }
+
+  const timer = setInterval(() => {
+    if (pending.length >= minBatchSize) {
+      flush().catch(error => {
+        console.error('[Canon] Failed to publish Merkle root:', error)
+      })
+    }
+  }, options.intervalMs ?? 3600000)
+  timer.unref?.()
+
+  return {
+    flush,
+    pending: () => pending.length,
+    stop() {
+      clearInterval(timer)
+      unsubscribe()
+    }
+  }
+}
+
+function hashLeaf(leaf: string): string {
+  return crypto.createHash('sha256').update(Buffer.from([0x00])).update(leaf, 'utf8').digest('hex')
+}
+
+function hashNode(left: string, right: string): string {
+  return crypto
+    .createHash('sha256')
+    .update(Buffer.from([0x01]))
+    .update(Buffer.from(left, 'hex'))
+    .update(Buffer.from(right, 'hex'))
+    .digest('hex')
+}
+
+function rootPayload(root: string, treeSize: number): string {
+  return canonicalize({ type: 'merkle-root', algorithm: 'sha256', root, treeSize })
+}
+
+/**
+ * Sibling position at each level for a leaf, skipping levels where the
+ * node has no sibling and is carried up
+ */
+function proofPositions(
+  index: number,
+  treeSize: number
+): { level: number; sibling: number; position: 'left' | 'right' }[] {
+  if (!Number.isInteger(index) || !Number.isInteger(treeSize) || index < 0 || index >= treeSize) {
+    throw new Error(`Invalid leaf index ${index} for tree of size ${treeSize}`)
+  }
+
+  const steps: { level: number; sibling: number; position: 'left' | 'right' }[] = []
+  for (let level = 0, size = treeSize; size > 1; level++, size = Math.ceil(size / 2)) {
+    if (index % 2 === 1) {
+      steps.push({ level, sibling: index - 1, position: 'left' })
+    } else if (index + 1 < size) {
+      steps.push({ level, sibling: index + 1, position: 'right' })
+    }
+    index = Math.floor(index / 2)
+  }
+  return steps
+}
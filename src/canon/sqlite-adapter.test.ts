@@ -0,0 +1,56 @@
+import { beforeAll, describe, expect, it } from 'vitest'
+import initSqlJs, { type Database, type SqlJsStatic, type SqlValue } from 'sql.js'
+import { createSqliteCanonAdapter, type SqliteDatabase } from './sqlite-adapter'
+import { runCanonAdapterConformance } from './conformance'
+
+let SQL: SqlJsStatic
+
+beforeAll(async () => {
+  SQL = await initSqlJs()
+})
+
+/**
+ * Adapt sql.js to the better-sqlite3 style statement API the adapter expects
+ */
+function wrap(db: Database): SqliteDatabase {
+  const query = (sql: string, params: unknown[]) => {
+    const statement = db.prepare(sql)
+    try {
+      statement.bind(params as SqlValue[])
+      const rows: Record<string, SqlValue>[] = []
+      while (statement.step()) {
+        rows.push(statement.getAsObject())
+      }
+      return rows
+    } finally {
+      statement.free()
+    }
+  }
+
+  return {
+    exec: sql => db.exec(sql),
+    prepare: sql => ({
+      run: (...params) => db.run(sql, params as SqlValue[]),
+      get: (...params) => query(sql, params)[0],
+      all: (...params) => query(sql, params)
+    })
+  }
+}
+
+describe('createSqliteCanonAdapter', () => {
+  it('passes the conformance suite', async () => {
+    let db: SqliteDatabase
+    const report = await runCanonAdapterConformance(
+      () => createSqliteCanonAdapter(db = wrap(new SQL.Database())),
+      { reopen: () => createSqliteCanonAdapter(db) }
+    )
+
+    expect(report.failures).toEqual([])
+    expect(report.results.filter(result => result.skipped)).toEqual([])
+  })
+
+  it('rejects an unsafe table prefix', () => {
+    expect(() => createSqliteCanonAdapter(wrap(new SQL.Database()), { tablePrefix: 'canon; DROP' }))
+      .toThrow('Invalid table prefix')
+  })
+})
@@ -0,0 +1,184 @@
+/**
+ * ChittyOS Canon - SQLite storage adapter
+ * Stores every version in a chain table and the latest version of each
+ * record in a records table, with chittyId, source, timestamp and tags
+ * indexed for queries. The database is injected, so any driver with a
+ * `prepare(sql).run/get/all` API works (better-sqlite3, node:sqlite, bun:sqlite).
+ */
+
+import type { CanonicalRecord, CanonQuery, CanonStorageAdapter } from './index'
+
+export interface SqliteStatement {
+  run(...params: unknown[]): unknown
+  get(...params: unknown[]): unknown
+  all(...params: unknown[]): unknown[] | Promise<unknown[]>
+}
+
+export interface SqliteDatabase {
+  exec(sql: string): unknown
+  prepare(sql: string): SqliteStatement
+}
+
+export interface SqliteCanonAdapterOptions {
+  /** Prefix for table and index names (default: `canon`) */
+  tablePrefix?: string
+}
+
+/**
+ * Create a storage adapter backed by a SQLite database
+ */
+export function createSqliteCanonAdapter(
+  db: SqliteDatabase,
+  options: SqliteCanonAdapterOptions = {}
+): CanonStorageAdapter {
+  const prefix = options.tablePrefix ?? 'canon'
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(prefix)) {
+    throw new Error(`Invalid table prefix: ${prefix}`)
+  }
+
+  const records = `${prefix}_records`
+  const chain = `${prefix}_chain`
+  const tags = `${prefix}_tags`
+  let ready: Promise<void> | null = null
+
+  const migrate = () => {
+    ready ??= Promise.resolve(db.exec(`
+      CREATE TABLE IF NOT EXISTS ${records} (
+        canon_id TEXT PRIMARY KEY,
+        version INTEGER NOT NULL,
+        chitty_id TEXT NOT NULL,
+        source TEXT,
+        timestamp TEXT NOT NULL,
+        record TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS ${records}_chitty_id ON ${records} (chitty_id);
+      CREATE INDEX IF NOT EXISTS ${records}_timestamp ON ${records} (timestamp);
+      CREATE TABLE IF NOT EXISTS ${chain} (
+        canon_id TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        hash TEXT NOT NULL,
+        previous_hash TEXT,
+        timestamp TEXT NOT NULL,
+        record TEXT NOT NULL,
+        PRIMARY KEY (canon_id, version)
+      );
+      CREATE TABLE IF NOT EXISTS ${tags} (
+        canon_id TEXT NOT NULL,
+        tag TEXT NOT NULL,
+        PRIMARY KEY (canon_id, tag)
+      );
+      CREATE INDEX IF NOT EXISTS ${tags}_tag ON ${tags} (tag);
+    `)).then(() => undefined)
+    return ready
+  }
+
+  let queue: Promise<unknown> = Promise.resolve()
+
+  // BEGIN/COMMIT apply to the whole connection, so transactions are serialized
+  const exclusive = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = queue.then(task, task)
+    queue = run.catch(() => undefined)
+    return run
+  }
+
+  const transaction = <T>(task: () => Promise<T>): Promise<T> => exclusive(async () => {
+    await db.exec('BEGIN')
+    try {
+      const result = await task()
+      await db.exec('COMMIT')
+      return result
+    } catch (error) {
+      await db.exec('ROLLBACK')
+      throw error
+    }
+  })
+
+  return {
+    async get(canonId) {
+      await migrate()
+      const row = await db.prepare(`SELECT record FROM ${records} WHERE canon_id = ?`).get(canonId) as
+        { record: string } | undefined
+      return row ? JSON.parse(row.record) as CanonicalRecord : null
+    },
+
+    async set(record) {
+      await migrate()
+      const json = JSON.stringify(record)
+
+      await transaction(async () => {
+        // The primary key rejects a second write of the same version
+        await db.prepare(
+          `INSERT INTO ${chain} (canon_id, version, hash, previous_hash, timestamp, record) VALUES (?, ?, ?, ?, ?, ?)`
+        ).run(record.canonId, record.version, record.hash, record.previousHash ?? null, record.timestamp, json)
+
+        const head = await db.prepare(`SELECT version FROM ${records} WHERE canon_id = ?`).get(record.canonId) as
+          { version: number } | undefined
+        if (head && head.version > record.version) {
+          return
+        }
+
+        await db.prepare(
+          `INSERT OR REPLACE INTO ${records} (canon_id, version, chitty_id, source, timestamp, record) VALUES (?, ?, ?, ?, ?, ?)`
+        ).run(record.canonId, record.version, record.chittyId, record.metadata?.source ?? null, record.timestamp, json)
+
+        await db.prepare(`DELETE FROM ${tags} WHERE canon_id = ?`).run(record.canonId)
+        for (const tag of new Set(record.metadata?.tags ?? [])) {
+          await db.prepare(`INSERT INTO ${tags} (canon_id, tag) VALUES (?, ?)`).run(record.canonId, tag)
+        }
+      })
+    },
+
+    async delete(canonId) {
+      await migrate()
+      return transaction(async () => {
+        const existing = await db.prepare(`SELECT 1 AS found FROM ${records} WHERE canon_id = ?`).get(canonId)
+        await db.prepare(`DELETE FROM ${tags} WHERE canon_id = ?`).run(canonId)
+        await db.prepare(`DELETE FROM ${chain} WHERE canon_id = ?`).run(canonId)
+        await db.prepare(`DELETE FROM ${records} WHERE canon_id = ?`).run(canonId)
+        return !!existing
+      })
+    },
+
+    async list(filter: CanonQuery = {}) {
+      await migrate()
+      const where: string[] = []
+      const params: unknown[] = []
+
+      if (filter.chittyId) {
+        where.push('chitty_id = ?')
+        params.push(filter.chittyId)
+      }
+      if (filter.source) {
+        where.push('source = ?')
+        params.push(filter.source)
+      }
+      if (filter.afterTimestamp) {
+        where.push('timestamp > ?')
+        params.push(filter.afterTimestamp)
+      }
+      if (filter.beforeTimestamp) {
+        where.push('timestamp < ?')
+        params.push(filter.beforeTimestamp)
+      }
+      if (filter.tags?.length) {
+        const unique = [...new Set(filter.tags)]
+        where.push(
+          `canon_id IN (SELECT canon_id FROM ${tags} WHERE tag IN (${unique.map(() => '?').join(', ')}) ` +
+          `GROUP BY canon_id HAVING COUNT(*) = ?)`
+        )
+        params.push(...unique, unique.length)
+      }
+
+      const sql = `SELECT record FROM ${records}${where.length ? ` WHERE ${where.join(' AND ')}` : ''} ORDER BY timestamp`
+      const rows = await db.prepare(sql).all(...params) as { record: string }[]
+      return rows.map(row => JSON.parse(row.record) as CanonicalRecord)
+    },
+
+    async getHistory(canonId) {
+      await migrate()
+      const rows = await db.prepare(`SELECT record FROM ${chain} WHERE canon_id = ? ORDER BY version`).all(canonId) as
+        { record: string }[]
+      return rows.map(row => JSON.parse(row.record) as CanonicalRecord)
+    }
+  }
+}
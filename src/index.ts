@@ -63,6 +63,7 @@ export {
   // Verify
   validateSchema,
   schemas as validationSchemas,
+  canonicalize,
   hashData,
   verifyIntegrity,
   signData,
@@ -87,11 +88,24 @@ export {
 export {
   // Canon
   createCanonical,
+  createCanonicalAsync,
   updateCanonical,
+  updateCanonicalAsync,
   getCanonical,
+  getCanonicalHistory,
+  getCanonicalHistoryAsync,
   validateCanonical,
+  verifyCanonicalChain,
+  verifyCanonicalHistory,
   mergeCanonical,
-  queryCanonical
+  queryCanonical,
+  createFileCanonAdapter,
+  createSqliteCanonAdapter,
+  runCanonAdapterConformance,
+  publishMerkleRoot,
+  getInclusionProof,
+  verifyInclusionProof,
+  startMerkleBatching
 } from './canon'
 
 export {
@@ -113,6 +127,7 @@ export {
   BaseAgent,
   createTool,
   createConfirmableTool,
+  createToolFromZod,
   createToolCategory,
   params,
   createJobResult,
@@ -121,7 +136,34 @@ export {
   agentConfigTemplates,
   createAgentManifest,
   generateWranglerToml,
-  generatePackageJson
+  generatePackageJson,
+  createModelProvider,
+  withFallback,
+  createSessionStore,
+  createMemorySessionStore,
+  createMemoryKV,
+  createConfirmationStore,
+  createMemoryConfirmationStore,
+  createJobStore,
+  createMemoryJobStore,
+  createTracer,
+  createConsoleSink,
+  createMemorySink,
+  createBeaconSink,
+  createAuditSink,
+  verifyAuditTrail,
+  createDelegateTool,
+  discoverDelegateTools,
+  validateManifest,
+  getManifestJsonSchema,
+  scaffoldAgentProject,
+  writeAgentProject,
+  createMcpServer,
+  serveMcpStdio,
+  buildBudgetedSystemPrompt,
+  compactHistory,
+  createRateLimiter,
+  createMemoryRateLimiter
 } from './agents'
 
 // Export types
@@ -162,7 +204,14 @@ export type {
   // Canon types
   CanonicalRecord,
   CanonConfig,
-  CanonValidation
+  CanonStorageAdapter,
+  CanonQuery,
+  CanonHashAlgorithm,
+  CanonValidation,
+  CanonChainOptions,
+  CanonChainReport,
+  CanonChainLink,
+  MerkleInclusionProof
 } from './canon'
 
 export type {
@@ -191,10 +240,42 @@ export type {
   ToolDefinition,
   ToolCategory,
   ToolParameter,
+  ToolSchema,
   ToolResult,
   ToolCall,
   JobQueue,
-  PendingConfirmation
+  PendingConfirmation,
+  DryRunReport,
+  FunctionToolDefinition,
+  ModelProvider,
+  ModelProviderName,
+  ModelProviderOptions,
+  ModelRequest,
+  ModelResponse,
+  ModelStreamChunk,
+  AgentStreamEvent,
+  ConversationOptions,
+  SessionStore,
+  SessionStoreOptions,
+  KVLike,
+  ConfirmationStore,
+  BaseAgentOptions,
+  FetchHandlerOptions,
+  JobStore,
+  JobStoreOptions,
+  Tracer,
+  TraceSink,
+  TraceSpan,
+  DelegateToolOptions,
+  AgentManifestOptions,
+  ManifestValidation,
+  ScaffoldOptions,
+  ScaffoldFiles,
+  McpServer,
+  McpToolDefinition,
+  RateLimiter,
+  RateLimitRule,
+  RateLimitResult
 } from './agents'
 
 // Default export with all modules
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import * as crypto from 'crypto'
+import { z } from 'zod'
+import { canonicalize, hashData, schemas, validateSchema, verifyIntegrity } from './index'
+
+describe('canonicalize', () => {
+  it('sorts keys by UTF-16 code units at every level', () => {
+    expect(canonicalize({ b: [{ z: 1, a: 2 }], a: 'x', '€': 1, '\r': 2, '😀': 3 }))
+      .toBe('{"\\r":2,"a":"x","b":[{"a":2,"z":1}],"€":1,"😀":3}')
+  })
+
+  it('formats numbers as ECMAScript does', () => {
+    expect(canonicalize([1e21, 1e-7, 0.1, -0, 100, 333333333.3333333]))
+      .toBe('[1e+21,1e-7,0.1,0,100,333333333.3333333]')
+  })
+
+  it('drops undefined members and applies toJSON', () => {
+    expect(canonicalize({ when: new Date(0), skip: undefined, list: [undefined] }))
+      .toBe('{"list":[null],"when":"1970-01-01T00:00:00.000Z"}')
+  })
+
+  it('rejects values with no canonical form', () => {
+    expect(() => canonicalize(undefined)).toThrow('no JSON representation')
+    expect(() => canonicalize({ n: Number.NaN })).toThrow('non-finite number')
+    expect(() => canonicalize({ n: 1n })).toThrow('BigInt')
+    expect(() => canonicalize('\ud800')).toThrow('unpaired surrogate')
+  })
+})
+
+describe('hashData', () => {
+  it('hashes the same value identically whatever the key order', () => {
+    expect(hashData({ a: 1, b: { c: 2, d: 3 } })).toBe(hashData({ b: { d: 3, c: 2 }, a: 1 }))
+  })
+
+  it('still verifies hashes made from JSON.stringify', () => {
+    const data = { b: 1, a: 2 }
+    const legacy = crypto.createHash('sha256').update(JSON.stringify(data)).digest('hex')
+
+    expect(verifyIntegrity(data, legacy)).toBe(true)
+    expect(verifyIntegrity({ a: 2, b: 1 }, hashData(data))).toBe(true)
+    expect(verifyIntegrity({ a: 3, b: 1 }, hashData(data))).toBe(false)
+  })
+})
+
+describe('validateSchema', () => {
+  it('reports each issue with its path', () => {
+    expect(validateSchema({ ip: '10.0.0.1' }, z.object({ ip: schemas.ipAddress }))).toEqual({
+      valid: true,
+      data: { ip: '10.0.0.1' }
+    })
+    expect(validateSchema({ ip: '::1' }, z.object({ ip: schemas.ipAddress })).valid).toBe(true)
+
+    const result = validateSchema({ ip: '999.1.1.1' }, z.object({ ip: schemas.ipAddress }))
+    expect(result.valid).toBe(false)
+    expect(result.errors?.[0]).toMatch(/^ip: /)
+  })
+})
@@ -51,7 +51,7 @@ export function validateSchema<T>(
     if (error instanceof z.ZodError) {
       return {
         valid: false,
-        errors: error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+        errors: error.issues.map(e => `${e.path.join('.')}: ${e.message}`)
       }
     }
     return {
@@ -77,7 +77,7 @@ export const schemas = {
 
   dateTime: z.string().datetime(),
 
-  ipAddress: z.string().ip(),
+  ipAddress: z.union([z.ipv4(), z.ipv6()]),
 
   semver: z.string().regex(/^\d+\.\d+\.\d+(-[a-zA-Z0-9]+)?$/),
 
@@ -122,10 +122,69 @@ function luhnCheck(cardNumber: string): boolean {
 }
 
 /**
- * Calculate hash of data
+ * Serialize a value as RFC 8785 (JCS) canonical JSON: object keys sorted by
+ * UTF-16 code units, no whitespace, ECMAScript number formatting. The same
+ * logical value always produces the same string, whatever its key order.
+ */
+export function canonicalize(value: unknown): string {
+  const json = serializeCanonical(value)
+  if (json === undefined) {
+    throw new Error('Cannot canonicalize a value with no JSON representation')
+  }
+  return json
+}
+
+function serializeCanonical(value: unknown): string | undefined {
+  if (value !== null && typeof (value as any)?.toJSON === 'function') {
+    value = (value as any).toJSON()
+  }
+
+  switch (typeof value) {
+    case 'undefined':
+    case 'function':
+    case 'symbol':
+      return undefined
+    case 'bigint':
+      throw new Error('Cannot canonicalize a BigInt')
+    case 'boolean':
+      return value ? 'true' : 'false'
+    case 'number':
+      if (!Number.isFinite(value)) {
+        throw new Error(`Cannot canonicalize non-finite number ${value}`)
+      }
+      // ECMAScript Number-to-String, as RFC 8785 requires; -0 becomes 0
+      return JSON.stringify(value)
+    case 'string':
+      // Unpaired surrogates are not valid Unicode and have no canonical form
+      if (/[\uD800-\uDFFF]/u.test(value)) {
+        throw new Error('Cannot canonicalize a string containing an unpaired surrogate')
+      }
+      return JSON.stringify(value)
+  }
+
+  if (value === null) {
+    return 'null'
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(item => serializeCanonical(item) ?? 'null').join(',')}]`
+  }
+
+  const members: string[] = []
+  for (const key of Object.keys(value as object).sort()) {
+    const member = serializeCanonical((value as Record<string, unknown>)[key])
+    if (member !== undefined) {
+      members.push(`${serializeCanonical(key)}:${member}`)
+    }
+  }
+  return `{${members.join(',')}}`
+}
+
+/**
+ * Calculate hash of data. Non-string data is hashed in its canonical JSON form.
  */
 export function hashData(data: any, algorithm = config.hashAlgorithm!): string {
-  const stringData = typeof data === 'string' ? data : JSON.stringify(data)
+  const stringData = typeof data === 'string' ? data : canonicalize(data)
   return crypto.createHash(algorithm).update(stringData).digest('hex')
 }
 
@@ -134,7 +193,13 @@ export function hashData(data: any, algorithm = config.hashAlgorithm!): string {
  */
 export function verifyIntegrity(data: any, expectedHash: string, algorithm = config.hashAlgorithm!): boolean {
   const actualHash = hashData(data, algorithm)
-  return actualHash === expectedHash
+  if (actualHash === expectedHash) {
+    return true
+  }
+
+  // Hashes created before canonical serialization used JSON.stringify
+  return typeof data !== 'string' &&
+    crypto.createHash(algorithm).update(JSON.stringify(data)).digest('hex') === expectedHash
 }
 
 /**
@@ -246,6 +311,7 @@ export default {
   configure,
   validateSchema,
   schemas,
+  canonicalize,
   hashData,
   verifyIntegrity,
   signData,
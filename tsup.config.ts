@@ -10,7 +10,9 @@ export default defineConfig({
     'src/brand/index.ts',
     'src/canon/index.ts',
     'src/registry/index.ts',
-    'src/chittychat/index.ts'
+    'src/chittychat/index.ts',
+    'src/agents/index.ts',
+    'src/agents/testing.ts'
   ],
   format: ['cjs', 'esm'],
   dts: true,